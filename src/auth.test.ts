@@ -0,0 +1,66 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AuthOptions, getAuthHeaders } from './auth';
+import { silentLogger, withLogger } from './logger';
+
+describe('getAuthHeaders', () => {
+  const request = { method: 'GET', url: 'https://api.example.com/data', headers: {} };
+  const headers = (options: AuthOptions) => withLogger(silentLogger, () => getAuthHeaders(options, request));
+
+  it('builds basic and bearer headers', async () => {
+    expect(await headers({ authType: 'basic', authUsername: 'user', authPassword: 'pass' }))
+      .toEqual({ Authorization: `Basic ${Buffer.from('user:pass').toString('base64')}` });
+    expect(await headers({ authType: 'bearer', authToken: 'abc' })).toEqual({ Authorization: 'Bearer abc' });
+    expect(await headers({})).toEqual({});
+  });
+
+  it('requires the credentials of the auth type', async () => {
+    await expect(headers({ authType: 'basic', authUsername: 'user' })).rejects.toThrow('auth-username and auth-password are required');
+    await expect(headers({ authType: 'oauth2-client-credentials' })).rejects.toThrow('oauth2-token-url, oauth2-client-id and oauth2-client-secret are required');
+  });
+
+  describe('oauth2-client-credentials', () => {
+    let server: http.Server;
+    let tokenUrl: string;
+    const bodies: string[] = [];
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          bodies.push(body);
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify({ access_token: `token-${bodies.length}`, expires_in: 3600 }));
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      tokenUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/token`;
+    });
+    afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+    const oauth2 = (extra: Partial<AuthOptions> = {}): AuthOptions => ({
+      authType: 'oauth2-client-credentials',
+      oauth2TokenUrl: tokenUrl,
+      oauth2ClientId: 'client',
+      oauth2ClientSecret: 'secret',
+      network: { proxy: 'none' },
+      ...extra,
+    });
+
+    it('requests a token once and reuses it', async () => {
+      const options = oauth2({ oauth2Scope: 'read' });
+      expect(await headers(options)).toEqual({ Authorization: 'Bearer token-1' });
+      expect(await headers(options)).toEqual({ Authorization: 'Bearer token-1' });
+      expect(bodies).toEqual(['grant_type=client_credentials&client_id=client&client_secret=secret&scope=read']);
+    });
+
+    it('applies block-private-networks and https-only to the token URL', async () => {
+      await expect(headers(oauth2({ oauth2Scope: 'private', network: { proxy: 'none', blockPrivateNetworks: true } })))
+        .rejects.toThrow('Failed to obtain OAuth2 access token: Refusing to connect to 127.0.0.1: private network address');
+      await expect(headers(oauth2({ oauth2Scope: 'https', redirects: { maxRedirects: 5, allowCrossHost: true, httpsOnly: true } })))
+        .rejects.toThrow('only https:// URLs are allowed (https-only)');
+      expect(bodies).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import axios from 'axios';
+import { SignatureV4 } from '@smithy/signature-v4';
+import { HttpRequest } from '@smithy/protocol-http';
+import { Hash } from '@smithy/hash-node';
+import { fromNodeProviderChain } from '@aws-sdk/credential-providers';
+import { log } from './logger';
+import { redactUrl, registerSecret } from './redact';
+import { getRequestAgents, NetworkOptions } from './network';
+import { checkRequestUrl, DEFAULT_REDIRECT_POLICY, RedirectPolicy, redirectConfig } from './redirect';
+
+export type AuthType = 'none' | 'basic' | 'bearer' | 'oauth2-client-credentials' | 'aws-sigv4';
+
+export const AUTH_TYPES: AuthType[] = ['none', 'basic', 'bearer', 'oauth2-client-credentials', 'aws-sigv4'];
+
+export interface AuthOptions {
+  authType?: AuthType;
+  authUsername?: string;
+  authPassword?: string;
+  authToken?: string;
+  oauth2TokenUrl?: string;
+  oauth2ClientId?: string;
+  oauth2ClientSecret?: string;
+  oauth2Scope?: string;
+  oauth2Audience?: string;
+  sigv4Service?: string;
+  sigv4Region?: string;
+  // The token request goes out like the source request: same proxy, TLS and redirect settings
+  network?: NetworkOptions;
+  redirects?: RedirectPolicy;
+}
+
+/**
+ * The parts of a request that authentication depends on (SigV4 signs all of them)
+ */
+export interface AuthRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  data?: string;
+}
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number; // Epoch milliseconds, Infinity if the server gave no expiry
+}
+
+// Refresh tokens this long before they expire
+const TOKEN_EXPIRY_MARGIN = 60000;
+
+// Tokens are cached per client so retries, pages and manifest entries reuse them
+const tokenCache = new Map<string, Promise<CachedToken>>();
+
+let sigv4Credentials: ReturnType<typeof fromNodeProviderChain> | undefined;
+
+/**
+ * Validate auth type
+ */
+export function validateAuthType(authType?: string): AuthType | undefined {
+  if (!authType) return undefined;
+
+  if (!AUTH_TYPES.includes(authType as AuthType)) {
+    throw new Error(
+      `Invalid auth-type: ${authType}. Must be one of: ${AUTH_TYPES.join(', ')}`
+    );
+  }
+
+  return authType as AuthType;
+}
+
+function tokenCacheKey(options: AuthOptions): string {
+  return JSON.stringify([options.oauth2TokenUrl, options.oauth2ClientId, options.oauth2Scope, options.oauth2Audience]);
+}
+
+/**
+ * Request an access token with the OAuth2 client credentials grant
+ */
+async function requestOAuth2Token(options: AuthOptions): Promise<CachedToken> {
+  log.info(`Requesting OAuth2 access token from ${redactUrl(options.oauth2TokenUrl)}`);
+
+  const body = new URLSearchParams({
+    grant_type: 'client_credentials',
+    client_id: options.oauth2ClientId as string,
+    client_secret: options.oauth2ClientSecret as string,
+  });
+  if (options.oauth2Scope) {
+    body.set('scope', options.oauth2Scope);
+  }
+  if (options.oauth2Audience) {
+    body.set('audience', options.oauth2Audience);
+  }
+
+  const tokenUrl = options.oauth2TokenUrl as string;
+  const redirectPolicy = options.redirects ?? DEFAULT_REDIRECT_POLICY;
+  const blockPrivateNetworks = options.network?.blockPrivateNetworks;
+  let response;
+  try {
+    checkRequestUrl(tokenUrl, redirectPolicy, blockPrivateNetworks);
+    response = await axios.post(tokenUrl, body.toString(), {
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Accept': 'application/json',
+      },
+      timeout: 60000,
+      ...redirectConfig(tokenUrl, redirectPolicy, [], blockPrivateNetworks),
+      ...getRequestAgents(tokenUrl, options.network),
+    });
+  } catch (error) {
+    const status = axios.isAxiosError(error) && error.response ? ` (Status: ${error.response.status})` : '';
+    throw new Error(`Failed to obtain OAuth2 access token: ${error instanceof Error ? error.message : error}${status}`);
+  }
+
+  const accessToken = response.data?.access_token;
+  if (typeof accessToken !== 'string' || accessToken === '') {
+    throw new Error('Failed to obtain OAuth2 access token: response has no access_token');
+  }
+  registerSecret(accessToken);
+
+  const expiresIn = Number(response.data?.expires_in);
+  const expiresAt = expiresIn > 0 ? Date.now() + expiresIn * 1000 : Infinity;
+  log.info(`OAuth2 access token obtained${expiresIn > 0 ? ` (expires in ${expiresIn}s)` : ''}`);
+
+  return { accessToken, expiresAt };
+}
+
+/**
+ * Get a cached OAuth2 access token, requesting a new one when missing or about to expire
+ */
+async function getOAuth2Token(options: AuthOptions): Promise<string> {
+  if (!options.oauth2TokenUrl || !options.oauth2ClientId || !options.oauth2ClientSecret) {
+    throw new Error(
+      'oauth2-token-url, oauth2-client-id and oauth2-client-secret are required for oauth2-client-credentials authentication'
+    );
+  }
+
+  const cacheKey = tokenCacheKey(options);
+  const cached = tokenCache.get(cacheKey);
+  if (cached) {
+    try {
+      const token = await cached;
+      if (token.expiresAt - TOKEN_EXPIRY_MARGIN > Date.now()) {
+        return token.accessToken;
+      }
+    } catch {
+      // A failed request is not cached; fall through and try again
+    }
+  }
+
+  const request = requestOAuth2Token(options);
+  tokenCache.set(cacheKey, request);
+  request.catch(() => tokenCache.delete(cacheKey));
+  return (await request).accessToken;
+}
+
+/**
+ * Drop the cached OAuth2 token so the next request fetches a fresh one
+ * Returns true if the auth type uses a refreshable token (worth retrying a 401)
+ */
+export function invalidateAuthToken(options: AuthOptions): boolean {
+  if (options.authType !== 'oauth2-client-credentials') {
+    return false;
+  }
+  tokenCache.delete(tokenCacheKey(options));
+  return true;
+}
+
+/**
+ * Sign a request with AWS Signature Version 4 using the default credential chain
+ */
+async function signSigV4(options: AuthOptions, request: AuthRequest): Promise<Record<string, string>> {
+  if (!options.sigv4Service || !options.sigv4Region) {
+    throw new Error('aws-sigv4-service and aws-sigv4-region are required for aws-sigv4 authentication');
+  }
+
+  sigv4Credentials = sigv4Credentials || fromNodeProviderChain();
+  const signer = new SignatureV4({
+    credentials: sigv4Credentials,
+    region: options.sigv4Region,
+    service: options.sigv4Service,
+    sha256: Hash.bind(null, 'sha256'),
+  });
+
+  const url = new URL(request.url);
+  const query: Record<string, string | string[]> = {};
+  for (const [name, value] of url.searchParams) {
+    const existing = query[name];
+    query[name] = existing === undefined ? value : ([] as string[]).concat(existing, value);
+  }
+
+  const signed = await signer.sign(new HttpRequest({
+    method: request.method.toUpperCase(),
+    protocol: url.protocol,
+    hostname: url.hostname,
+    port: url.port ? parseInt(url.port, 10) : undefined,
+    path: url.pathname,
+    query,
+    headers: { ...request.headers, host: url.host },
+    body: request.data,
+  }));
+
+  // Only return the headers added by signing; host is set by the HTTP client
+  const authHeaders: Record<string, string> = {};
+  for (const [name, value] of Object.entries(signed.headers)) {
+    if (name !== 'host' && !(name in request.headers)) {
+      authHeaders[name] = value;
+    }
+  }
+  return authHeaders;
+}
+
+/**
+ * Generate authentication headers for a request based on auth type
+ */
+export async function getAuthHeaders(options: AuthOptions, request: AuthRequest): Promise<Record<string, string>> {
+  switch (validateAuthType(options.authType) ?? 'none') {
+    case 'none':
+      return {};
+
+    case 'basic': {
+      if (!options.authUsername || !options.authPassword) {
+        throw new Error('auth-username and auth-password are required for basic authentication');
+      }
+      const credentials = Buffer.from(`${options.authUsername}:${options.authPassword}`).toString('base64');
+      registerSecret(credentials);
+      return { 'Authorization': `Basic ${credentials}` };
+    }
+
+    case 'bearer':
+      if (!options.authToken) {
+        throw new Error('auth-token is required for bearer authentication');
+      }
+      return { 'Authorization': `Bearer ${options.authToken}` };
+
+    case 'oauth2-client-credentials':
+      return { 'Authorization': `Bearer ${await getOAuth2Token(options)}` };
+
+    case 'aws-sigv4':
+      return signSigV4(options, request);
+  }
+}
@@ -0,0 +1,57 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { parseExpectedChecksum } from './checksum';
+import { readSharedOptions, readTransferOptions, silentLogger, urlToS3 } from './lib';
+import { withLogger } from './logger';
+
+const CONTENT = 'hello world\n';
+const SHA256 = createHash('sha256').update(CONTENT).digest('hex');
+
+describe('parseExpectedChecksum', () => {
+  it('accepts hex and base64 digests', () => {
+    expect(parseExpectedChecksum(SHA256.toUpperCase())).toEqual({ algorithm: 'sha256', digest: SHA256 });
+    const md5 = createHash('md5').update(CONTENT);
+    expect(parseExpectedChecksum(undefined, `MD5:${md5.copy().digest('base64')}`))
+      .toEqual({ algorithm: 'md5', digest: md5.digest('hex') });
+  });
+
+  it('rejects both inputs, unknown algorithms and digests of the wrong size', () => {
+    expect(() => parseExpectedChecksum(SHA256, `sha256:${SHA256}`)).toThrow('Only one of');
+    expect(() => parseExpectedChecksum(undefined, `crc32:${SHA256}`)).toThrow('Invalid expected-checksum algorithm: crc32');
+    expect(() => parseExpectedChecksum('abc123')).toThrow('Invalid expected-sha256');
+  });
+});
+
+describe('checksum verification', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'url-to-s3-test-'));
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const transfer = (expectedSha256: string) => {
+    const inputs: Record<string, string> = {
+      'url': `data:text/plain,${encodeURIComponent(CONTENT)}`,
+      'destination-url': `file://${dir}/out.txt`,
+      'expected-sha256': expectedSha256,
+    };
+    const input = (name: string) => inputs[name] ?? '';
+    return withLogger(silentLogger, () => urlToS3(readTransferOptions(input, readSharedOptions(input))));
+  };
+
+  it('stores the object when the digest matches', async () => {
+    const result = await transfer(SHA256);
+    expect(result.checksums?.sha256).toBe(SHA256);
+    expect(fs.readFileSync(path.join(dir, 'out.txt'), 'utf8')).toBe(CONTENT);
+  });
+
+  it('aborts the upload on a mismatch, leaving nothing behind', async () => {
+    await expect(transfer('0'.repeat(64))).rejects.toThrow(`Checksum mismatch: expected sha256 ${'0'.repeat(64)}, got ${SHA256}`);
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+});
@@ -0,0 +1,80 @@
+export type ChecksumAlgorithm = 'sha256' | 'sha1' | 'md5';
+
+export const CHECKSUM_ALGORITHMS: ChecksumAlgorithm[] = ['sha256', 'sha1', 'md5'];
+
+export interface ExpectedChecksum {
+  algorithm: ChecksumAlgorithm;
+  digest: string; // Lowercase hex
+}
+
+export type Checksums = Record<ChecksumAlgorithm, string>;
+
+// Digest sizes in bytes, used to tell hex from base64 input
+const DIGEST_BYTES: Record<ChecksumAlgorithm, number> = {
+  sha256: 32,
+  sha1: 20,
+  md5: 16,
+};
+
+/**
+ * Normalize a hex or base64 digest to lowercase hex
+ */
+function normalizeDigest(algorithm: ChecksumAlgorithm, value: string, name: string): string {
+  const trimmed = value.trim();
+  const size = DIGEST_BYTES[algorithm];
+
+  if (/^[0-9a-fA-F]+$/.test(trimmed) && trimmed.length === size * 2) {
+    return trimmed.toLowerCase();
+  }
+
+  const decoded = Buffer.from(trimmed, 'base64');
+  if (decoded.length === size && decoded.toString('base64') === trimmed) {
+    return decoded.toString('hex');
+  }
+
+  throw new Error(`Invalid ${name}: expected a ${algorithm} digest as hex or base64`);
+}
+
+/**
+ * Parse the expected checksum inputs
+ * expected-sha256 takes a bare digest; expected-checksum takes an algorithm prefix
+ * (e.g., "sha256:abc...", "sha1:...", "md5:..."). Only one may be set.
+ */
+export function parseExpectedChecksum(
+  expectedSha256?: string,
+  expectedChecksum?: string
+): ExpectedChecksum | undefined {
+  const sha256 = expectedSha256?.trim();
+  const prefixed = expectedChecksum?.trim();
+
+  if (sha256 && prefixed) {
+    throw new Error('Only one of expected-sha256 and expected-checksum may be set');
+  }
+
+  if (sha256) {
+    return { algorithm: 'sha256', digest: normalizeDigest('sha256', sha256, 'expected-sha256') };
+  }
+
+  if (!prefixed) {
+    return undefined;
+  }
+
+  const separatorIndex = prefixed.indexOf(':');
+  if (separatorIndex === -1) {
+    throw new Error(
+      `Invalid expected-checksum: ${prefixed}. Must be <algorithm>:<digest> with algorithm one of: ${CHECKSUM_ALGORITHMS.join(', ')}`
+    );
+  }
+
+  const algorithm = prefixed.substring(0, separatorIndex).trim().toLowerCase().replace('-', '') as ChecksumAlgorithm;
+  if (!CHECKSUM_ALGORITHMS.includes(algorithm)) {
+    throw new Error(
+      `Invalid expected-checksum algorithm: ${algorithm}. Must be one of: ${CHECKSUM_ALGORITHMS.join(', ')}`
+    );
+  }
+
+  return {
+    algorithm,
+    digest: normalizeDigest(algorithm, prefixed.substring(separatorIndex + 1), 'expected-checksum'),
+  };
+}
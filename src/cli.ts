@@ -0,0 +1,165 @@
+#!/usr/bin/env node
+/**
+ * url-to-s3 command line
+ * Takes the Action's inputs as --flags or URL_TO_S3_* environment variables and prints
+ * the Action's outputs to stdout as JSON; logs go to stderr.
+ */
+import { createConsoleLogger, Logger, withLogger } from './logger';
+import {
+  countOutcomes,
+  InputReader,
+  logErrorDetails,
+  manifestOutputs,
+  readManifestSettings,
+  readSharedOptions,
+  readTransferOptions,
+  transferOutputs,
+  urlToS3,
+  urlToS3Manifest,
+} from './lib';
+
+const ENV_PREFIX = 'URL_TO_S3_';
+
+const USAGE = `Usage: url-to-s3 --url <url> --s3-bucket <bucket> --s3-key <key> [options]
+       url-to-s3 --url <url> --destination-url <s3://bucket/key | file://path> [options]
+       url-to-s3 --manifest <file> [--s3-bucket <bucket>] [options]
+
+Every input of the GitHub Action is accepted as a flag of the same name
+(--storage-class GLACIER, --if-not-exists) or as an environment variable
+(URL_TO_S3_STORAGE_CLASS=GLACIER). Flags take precedence over the environment,
+and a flag without a value is true.
+
+The Action's outputs are printed to stdout as JSON; logs go to stderr.
+Exits with 1 when the transfer fails and 2 on invalid arguments.
+
+Inputs: https://github.com/predictr-io/url-to-s3#inputs`;
+
+/**
+ * Environment variable for an input (e.g., s3-bucket → URL_TO_S3_S3_BUCKET)
+ */
+function envName(name: string): string {
+  return `${ENV_PREFIX}${name.toUpperCase().replace(/-/g, '_')}`;
+}
+
+/**
+ * Parse --name value, --name=value and bare --flag arguments
+ */
+function parseArgs(argv: string[]): Map<string, string> {
+  const flags = new Map<string, string>();
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--') || arg === '--') {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+
+    const equals = arg.indexOf('=');
+    if (equals !== -1) {
+      flags.set(arg.substring(2, equals), arg.substring(equals + 1));
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      flags.set(arg.substring(2), argv[++i]);
+    } else {
+      flags.set(arg.substring(2), 'true');
+    }
+  }
+
+  return flags;
+}
+
+/**
+ * Input reader over the flags and the environment, remembering which flags were read
+ */
+function createInputReader(flags: Map<string, string>): { input: InputReader; unusedFlags: () => string[] } {
+  const read = new Set<string>();
+
+  const input: InputReader = (name, options) => {
+    read.add(name);
+    const value = (flags.get(name) ?? process.env[envName(name)] ?? '').trim();
+    if (!value && options?.required) {
+      throw new Error(`Missing required option --${name} (or ${envName(name)})`);
+    }
+    return value;
+  };
+
+  return {
+    input,
+    unusedFlags: () => [...flags.keys()].filter((name) => !read.has(name)),
+  };
+}
+
+/**
+ * Warn about flags that no input read, which are most likely typos
+ */
+function warnUnused(logger: Logger, names: string[]): void {
+  for (const name of names) {
+    logger.warning(`Unknown or unused option --${name}`);
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  if (argv.includes('--help') || argv.includes('-h')) {
+    process.stdout.write(`${USAGE}\n`);
+    return 0;
+  }
+
+  const logger = createConsoleLogger();
+  let flags: Map<string, string>;
+  try {
+    flags = parseArgs(argv);
+  } catch (error) {
+    logger.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return 2;
+  }
+  const { input, unusedFlags } = createInputReader(flags);
+
+  return withLogger(logger, async () => {
+    try {
+      let outputs: Record<string, unknown>;
+      let failure: string | undefined;
+
+      if (input('manifest')) {
+        const settings = readManifestSettings(input);
+        const shared = readSharedOptions(input);
+        warnUnused(logger, unusedFlags());
+
+        const outcomes = await urlToS3Manifest(settings.entries, shared, settings);
+        outputs = manifestOutputs(outcomes);
+        const counts = countOutcomes(outcomes);
+        if (counts.failed > 0) {
+          const message = `${counts.failed} of ${outcomes.length} manifest entries failed`;
+          if (settings.failOnError) {
+            failure = message;
+          } else {
+            logger.warning(`${message} (manifest-fail-on-error is false, not failing)`);
+          }
+        }
+      } else {
+        const options = readTransferOptions(input, readSharedOptions(input));
+        warnUnused(logger, unusedFlags());
+
+        const result = await urlToS3(options);
+        outputs = transferOutputs(result);
+        const failed = result.destinations?.filter((destination) => destination.status !== 'success') ?? [];
+        if (failed.length > 0) {
+          failure = `${failed.length} of ${result.destinations?.length} destinations failed`;
+        }
+      }
+
+      process.stdout.write(`${JSON.stringify(outputs, null, 2)}\n`);
+      if (failure) {
+        logger.error(failure);
+        return 1;
+      }
+      return 0;
+    } catch (error) {
+      logErrorDetails(error);
+      const message = error instanceof Error ? error.message : String(error);
+      process.stdout.write(`${JSON.stringify({ error: message }, null, 2)}\n`);
+      return 1;
+    }
+  });
+}
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
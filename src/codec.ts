@@ -0,0 +1,98 @@
+import * as zlib from 'zlib';
+import { Transform, TransformCallback } from 'stream';
+
+export type TransformMode = 'none' | 'gzip' | 'brotli' | 'zstd' | 'gunzip';
+
+const TRANSFORM_MODES: TransformMode[] = ['none', 'gzip', 'brotli', 'zstd', 'gunzip'];
+
+// Content-Encoding stored on the object for each compressing transform
+const CONTENT_ENCODINGS: Partial<Record<TransformMode, string>> = {
+  gzip: 'gzip',
+  brotli: 'br',
+  zstd: 'zstd',
+};
+
+// zlib zstd support is newer than the Node.js typings in use
+const zstdZlib = zlib as typeof zlib & {
+  createZstdCompress?: () => Transform;
+  createZstdDecompress?: () => Transform;
+};
+
+// Content-Types that only describe the gzip container, dropped once it is unpacked
+const GZIP_CONTENT_TYPES = ['application/gzip', 'application/x-gzip'];
+
+/**
+ * Validate transform mode
+ * zstd needs a Node.js runtime with zlib zstd support (22.15 or later)
+ */
+export function validateTransform(mode?: string): TransformMode {
+  if (!mode) return 'none';
+
+  if (!TRANSFORM_MODES.includes(mode as TransformMode)) {
+    throw new Error(`Invalid transform: ${mode}. Must be one of: ${TRANSFORM_MODES.join(', ')}`);
+  }
+  if (mode === 'zstd' && typeof zstdZlib.createZstdCompress !== 'function') {
+    throw new Error(`transform zstd is not supported by this Node.js runtime (${process.version})`);
+  }
+
+  return mode as TransformMode;
+}
+
+/**
+ * Create the streaming codec for a transform, or undefined for none
+ */
+export function createCodec(mode: TransformMode): Transform | undefined {
+  switch (mode) {
+    case 'gzip':
+      return zlib.createGzip();
+    case 'brotli':
+      return zlib.createBrotliCompress();
+    case 'zstd':
+      return (zstdZlib.createZstdCompress as () => Transform)();
+    case 'gunzip':
+      return zlib.createGunzip();
+    case 'none':
+      return undefined;
+  }
+}
+
+/**
+ * Create a zstd decompressor (used to read .tar.zst archives)
+ */
+export function createZstdDecompress(): Transform {
+  if (typeof zstdZlib.createZstdDecompress !== 'function') {
+    throw new Error(`zstd is not supported by this Node.js runtime (${process.version})`);
+  }
+  return zstdZlib.createZstdDecompress();
+}
+
+/**
+ * Content-Encoding to store on the object for a transform
+ */
+export function contentEncodingFor(mode: TransformMode): string | undefined {
+  return CONTENT_ENCODINGS[mode];
+}
+
+/**
+ * Content-Type to store after a transform
+ * Compression keeps the type (the encoding describes it); unpacking drops gzip container types
+ */
+export function contentTypeAfter(mode: TransformMode, contentType?: string): string | undefined {
+  const mimeType = contentType?.split(';')[0].trim().toLowerCase();
+  if (mode === 'gunzip' && mimeType && GZIP_CONTENT_TYPES.includes(mimeType)) {
+    return undefined;
+  }
+  return contentType;
+}
+
+/**
+ * Pass-through stream counting the bytes that go into the upload
+ */
+export class CountingStream extends Transform {
+  public bytes = 0;
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.bytes += chunk.length;
+    callback(null, chunk);
+  }
+}
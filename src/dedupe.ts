@@ -0,0 +1,66 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { Readable, Transform, TransformCallback } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ObjectHead } from './storage';
+
+// S3 metadata key holding the SHA-256 of the stored bytes, written by skip-if-identical
+export const CONTENT_SHA256_METADATA = 'content-sha256';
+
+/**
+ * Content held in a temporary file until it is known to differ from the stored object
+ */
+export interface StagedContent {
+  sha256: string; // Hex digest of the staged bytes
+  size: number;
+  open(): Readable;
+  remove(): void;
+}
+
+/**
+ * Write a stream to a temporary file, hashing it on the way
+ * Validation gates on the stream fail here, before anything is uploaded.
+ */
+export async function stageContent(stream: Readable): Promise<StagedContent> {
+  const tempDir = fs.mkdtempSync(path.join(process.env.RUNNER_TEMP || os.tmpdir(), 'url-to-s3-'));
+  const filePath = path.join(tempDir, 'content');
+  const remove = (): void => fs.rmSync(tempDir, { recursive: true, force: true });
+
+  const sha256 = createHash('sha256');
+  let size = 0;
+  const hasher = new Transform({
+    transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+      sha256.update(chunk);
+      size += chunk.length;
+      callback(null, chunk);
+    },
+  });
+
+  try {
+    await pipeline(stream, hasher, fs.createWriteStream(filePath));
+  } catch (error) {
+    remove();
+    throw error;
+  }
+
+  return {
+    sha256: sha256.digest('hex'),
+    size,
+    open: () => fs.createReadStream(filePath),
+    remove,
+  };
+}
+
+/**
+ * SHA-256 (hex) of a stored object's bytes: the one skip-if-identical recorded in its
+ * metadata, or else its full-object S3 checksum; undefined when it has neither
+ */
+export function storedSha256(head: ObjectHead): string | undefined {
+  const recorded = head.metadata[CONTENT_SHA256_METADATA];
+  if (recorded && /^[0-9a-f]{64}$/i.test(recorded)) {
+    return recorded.toLowerCase();
+  }
+  return head.checksumSha256;
+}
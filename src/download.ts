@@ -1,31 +1,96 @@
-import * as core from '@actions/core';
 import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
-import { PassThrough } from 'stream';
-
-export interface DownloadOptions {
+import { createHash, Hash } from 'crypto';
+import { Readable, Transform, TransformCallback } from 'stream';
+import { log } from './logger';
+import { createRangedStream, parseContentRangeTotal, RangedDownloadOptions, RangeFetcher, RangeStatusError } from './ranged';
+import { AuthOptions, getAuthHeaders, invalidateAuthToken } from './auth';
+import { CHECKSUM_ALGORITHMS, ChecksumAlgorithm, Checksums, ExpectedChecksum } from './checksum';
+import { checkResponseHeaders, needsBodyValidation, ValidatingStream, ValidationOptions } from './validate';
+import { getRequestAgents, NetworkOptions } from './network';
+import { isRetryableError, isRetryableStatus, parseRetryAfter, retryDelay, RetryPolicy, sleep } from './retry';
+import { isSensitiveHeader, redactHeaders, redactUrl, registerSecret } from './redact';
+import {
+  checkRequestUrl,
+  DEFAULT_REDIRECT_POLICY,
+  RedirectHop,
+  RedirectPolicy,
+  redirectConfig,
+  unfollowedRedirectError,
+} from './redirect';
+import {
+  decodeDataUrl,
+  fetchFtp,
+  fetchS3Object,
+  fetchSftp,
+  readLocalFile,
+  SourceAdapter,
+  SourceOptions,
+  SourceResponse,
+} from './sources';
+
+export interface DownloadOptions extends AuthOptions {
   url: string;
   method: string;
   headers?: Record<string, string>;
   data?: string;
   timeout?: number;
-  enableRetry?: boolean;
-  authType?: 'none' | 'basic' | 'bearer';
-  authUsername?: string;
-  authPassword?: string;
-  authToken?: string;
+  retry?: RetryPolicy; // Retry transient failures; a single attempt when unset
+  expectedChecksum?: ExpectedChecksum;
+  ifNoneMatch?: string; // Conditional request: ETag of the previously fetched content
+  ifModifiedSince?: string; // Conditional request: Last-Modified of the previously fetched content
+  rangedDownload?: RangedDownloadOptions; // Fetch byte ranges concurrently when the server supports it
+  validation?: ValidationOptions; // Size, Content-Type and body checks before the object is committed
+  keepEncoding?: boolean; // Keep the server's Content-Encoding bytes instead of decoding them
+  network?: NetworkOptions; // Proxy, CA bundle and client certificate for the source connection
+  redirects?: RedirectPolicy; // Redirect limits for HTTP sources (5 redirects to any host when unset)
+  source?: SourceOptions; // Credentials for s3:// and sftp:// URLs
 }
 
 /**
- * Custom stream that tracks bytes transferred
+ * Custom stream that tracks bytes transferred and computes checksums
+ * If an expected checksum is set, the stream errors at the end on a mismatch,
+ * so the upload consuming it is aborted instead of committed
  */
-export class ByteCountingStream extends PassThrough {
+export class ByteCountingStream extends Transform {
   public bytesTransferred = 0;
+  private readonly hashes: Record<ChecksumAlgorithm, Hash>;
+  private checksums?: Checksums;
 
-  constructor() {
+  constructor(private readonly expectedChecksum?: ExpectedChecksum) {
     super();
-    this.on('data', (chunk: Buffer) => {
-      this.bytesTransferred += chunk.length;
-    });
+    this.hashes = {
+      sha256: createHash('sha256'),
+      sha1: createHash('sha1'),
+      md5: createHash('md5'),
+    };
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.bytesTransferred += chunk.length;
+    for (const algorithm of CHECKSUM_ALGORITHMS) {
+      this.hashes[algorithm].update(chunk);
+    }
+    callback(null, chunk);
+  }
+
+  _flush(callback: TransformCallback): void {
+    this.checksums = {
+      sha256: this.hashes.sha256.digest('hex'),
+      sha1: this.hashes.sha1.digest('hex'),
+      md5: this.hashes.md5.digest('hex'),
+    };
+
+    if (this.expectedChecksum) {
+      const { algorithm, digest } = this.expectedChecksum;
+      const actual = this.checksums[algorithm];
+      if (actual !== digest) {
+        callback(new Error(`Checksum mismatch: expected ${algorithm} ${digest}, got ${actual}`));
+        return;
+      }
+      log.info(`Checksum verified: ${algorithm} ${actual}`);
+    }
+
+    callback();
   }
 
   /**
@@ -34,13 +99,28 @@ export class ByteCountingStream extends PassThrough {
   getBytesTransferred(): number {
     return this.bytesTransferred;
   }
+
+  /**
+   * Get the hex digests of the content (available once the stream has ended)
+   */
+  getChecksums(): Checksums | undefined {
+    return this.checksums;
+  }
 }
 
 export interface DownloadResult {
-  statusCode: number;
+  statusCode: number; // HTTP status; 200 (or 304) for the other protocols
+  finalUrl: string; // URL of the response after redirects
+  redirects?: RedirectHop[]; // Redirects followed to get there (HTTP only)
   contentLengthHeader: number; // From HTTP header (may be 0 for chunked)
   contentType?: string;
   contentEncoding?: string; // Content-Encoding header (e.g., 'gzip', 'deflate', 'br')
+  contentDisposition?: string; // Content-Disposition header (may carry the filename)
+  etag?: string; // ETag header of the source
+  lastModified?: string; // Last-Modified header of the source
+  notModified?: boolean; // True on 304 Not Modified (stream is empty)
+  responseHeaders: Record<string, string>; // All response headers, lowercase names
+  attempts: number; // Requests made, including retries
   stream: ByteCountingStream;
 }
 
@@ -60,7 +140,7 @@ export function parseKeyValuePairs(input?: string, name = 'input'): Record<strin
     try {
       return JSON.parse(trimmed);
     } catch (error) {
-      core.warning(`Failed to parse ${name} as JSON: ${error}`);
+      log.warning(`Failed to parse ${name} as JSON: ${error}`);
     }
   }
 
@@ -74,7 +154,7 @@ export function parseKeyValuePairs(input?: string, name = 'input'): Record<strin
 
     const separatorIndex = trimmedPair.indexOf('=');
     if (separatorIndex === -1) {
-      core.warning(`Skipping invalid ${name} pair: ${trimmedPair}`);
+      log.warning(`Skipping invalid ${name} pair: ${trimmedPair}`);
       continue;
     }
 
@@ -98,164 +178,401 @@ export function parseHeaders(headersInput?: string): Record<string, string> | un
 }
 
 /**
- * Generate Authorization header based on auth type
+ * Convert axios response headers to a plain object of strings
  */
-function generateAuthHeader(options: DownloadOptions): string | undefined {
-  if (!options.authType || options.authType === 'none') {
-    return undefined;
-  }
-
-  if (options.authType === 'basic') {
-    if (!options.authUsername || !options.authPassword) {
-      throw new Error('auth-username and auth-password are required for basic authentication');
-    }
-    const credentials = Buffer.from(`${options.authUsername}:${options.authPassword}`).toString('base64');
-    return `Basic ${credentials}`;
-  }
-
-  if (options.authType === 'bearer') {
-    if (!options.authToken) {
-      throw new Error('auth-token is required for bearer authentication');
-    }
-    return `Bearer ${options.authToken}`;
+function flattenHeaders(headers: AxiosResponse['headers']): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined || value === null) continue;
+    result[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
   }
+  return result;
+}
 
-  return undefined;
+/**
+ * Whether the URL is fetched over HTTP (pagination and ranged downloads only apply there)
+ */
+export function isHttpUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url);
 }
 
 /**
- * Download content from URL and return as a stream
- * This allows streaming directly to S3 without storing locally
+ * Send the HTTP request, with retries, authentication and ranged fetching
  */
-export async function downloadAsStream(
-  options: DownloadOptions
-): Promise<DownloadResult> {
-  core.info(`Downloading from ${options.url}`);
-  core.info(`Method: ${options.method}`);
+async function fetchHttp(options: DownloadOptions): Promise<SourceResponse> {
+  const redirectPolicy = options.redirects ?? DEFAULT_REDIRECT_POLICY;
+  const blockPrivateNetworks = options.network?.blockPrivateNetworks;
+  checkRequestUrl(options.url, redirectPolicy, blockPrivateNetworks);
+  log.info(`Method: ${options.method}`);
 
-  // Setup authentication
-  const authHeader = generateAuthHeader(options);
+  // Authentication headers are added per request (see sendRequest below)
   const headers = { ...options.headers };
-  if (authHeader) {
-    headers['Authorization'] = authHeader;
-    core.info(`Authentication: ${options.authType}`);
+  if (options.authType && options.authType !== 'none') {
+    log.info(`Authentication: ${options.authType}`);
   }
 
-  if (Object.keys(headers).length > 0) {
-    core.info(`Headers: ${JSON.stringify(headers, null, 2)}`);
+  // Setup conditional request
+  if (options.ifNoneMatch) {
+    headers['If-None-Match'] = options.ifNoneMatch;
+  }
+  if (options.ifModifiedSince) {
+    headers['If-Modified-Since'] = options.ifModifiedSince;
+  }
+
+  for (const [name, value] of Object.entries(headers)) {
+    if (isSensitiveHeader(name)) {
+      registerSecret(value);
+    }
+  }
+
+  // Auth headers are only generated per request, so show where they go (masked)
+  const loggedHeaders = options.authType && options.authType !== 'none'
+    ? { ...headers, 'Authorization': '(set by auth-type)' }
+    : headers;
+  if (Object.keys(loggedHeaders).length > 0) {
+    log.info(`Headers: ${JSON.stringify(redactHeaders(loggedHeaders), null, 2)}`);
   }
 
   // Setup timeout
   const timeout = options.timeout || 900000; // Default 15 minutes
-  core.info(`Timeout: ${timeout}ms (${(timeout / 1000 / 60).toFixed(1)} minutes)`);
+  log.info(`Timeout: ${timeout}ms (${(timeout / 1000 / 60).toFixed(1)} minutes)`);
 
+  // Redirects followed by the current attempt
+  const hops: RedirectHop[] = [];
   const config: AxiosRequestConfig = {
     method: options.method,
     url: options.url,
     headers,
     responseType: 'stream',
-    maxRedirects: 5,
+    ...redirectConfig(options.url, redirectPolicy, hops, blockPrivateNetworks),
     timeout,
     validateStatus: (status) => status < 600, // Don't throw on any status code
+    ...getRequestAgents(options.url, options.network),
   };
 
+  if (options.keepEncoding) {
+    config.decompress = false;
+  }
+
   // Add request body for POST/PUT/PATCH
   if (options.data && ['POST', 'PUT', 'PATCH'].includes(options.method.toUpperCase())) {
     config.data = options.data;
-    core.info(`Request body length: ${options.data.length} bytes`);
+    log.info(`Request body length: ${options.data.length} bytes`);
   }
 
-  // Retry logic
-  const maxRetries = options.enableRetry ? 3 : 0;
-  const retryDelay = 1000; // Start with 1 second
-  const retryStatusCodes = [408, 429, 500, 502, 503, 504];
+  // Send a request with authentication headers generated for it
+  // SigV4 signs every request individually and OAuth2 tokens may be refreshed between requests
+  const sendRequest = async (requestConfig: AxiosRequestConfig): Promise<AxiosResponse> => {
+    const requestHeaders = requestConfig.headers as Record<string, string>;
+    const authHeaders = await getAuthHeaders(options, {
+      method: options.method,
+      url: requestConfig.url as string,
+      headers: requestHeaders,
+      data: requestConfig.data,
+    });
+    return axios({ ...requestConfig, headers: { ...requestHeaders, ...authHeaders } });
+  };
+
+  // Probe for range support with a request for the first range only
+  // Ask for identity encoding so byte ranges refer to the bytes that are stored
+  const rangedDownload = options.rangedDownload && options.method.toUpperCase() === 'GET'
+    ? options.rangedDownload
+    : undefined;
+  if (options.rangedDownload && !rangedDownload) {
+    log.info(`Ranged download is only supported for GET requests, downloading as a single stream`);
+  }
+  if (rangedDownload) {
+    config.headers = {
+      ...headers,
+      'Range': `bytes=0-${rangedDownload.rangeSize - 1}`,
+      'Accept-Encoding': 'identity',
+    };
+    log.info(`Ranged download enabled: range size ${rangedDownload.rangeSize} bytes, concurrency ${rangedDownload.concurrency}`);
+  }
+
+  // Retry transient failures: retryable statuses are returned by axios (validateStatus),
+  // network errors are thrown
+  const retry = options.retry;
+  const maxAttempts = retry ? retry.maxAttempts : 1;
 
-  let lastError: Error | undefined;
   let response: AxiosResponse | undefined;
+  let tokenRefreshed = false;
+  let attempts = 0;
+
+  while (!response) {
+    attempts++;
+    let reason: string;
+    let retryAfter: number | undefined;
+    hops.length = 0;
 
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
     try {
-      if (attempt > 0) {
-        const delay = retryDelay * Math.pow(2, attempt - 1);
-        core.info(`Retry attempt ${attempt}/${maxRetries} after ${delay}ms delay...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
+      response = await sendRequest(config);
+
+      // Expired or revoked OAuth2 token: fetch a new one and repeat the request once
+      if (response.status === 401 && !tokenRefreshed && invalidateAuthToken(options)) {
+        log.warning('Received 401 Unauthorized, refreshing access token...');
+        response.data.destroy();
+        tokenRefreshed = true;
+        hops.length = 0;
+        response = await sendRequest(config);
       }
 
-      response = await axios(config);
-      lastError = undefined;
-      break; // Success!
+      if (!retry || attempts >= maxAttempts || !isRetryableStatus(retry, response.status)) {
+        break;
+      }
 
+      reason = `status ${response.status}`;
+      retryAfter = parseRetryAfter(response.headers['retry-after']);
+      response.data.destroy();
+      response = undefined;
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        const status = error.response?.status;
-        const shouldRetry = options.enableRetry &&
-          attempt < maxRetries &&
-          (status ? retryStatusCodes.includes(status) : true);
-
-        if (shouldRetry) {
-          core.warning(`Request failed (status: ${status || 'unknown'}), will retry...`);
-          lastError = new Error(
-            `HTTP request failed: ${error.message}${
-              error.response ? ` (Status: ${error.response.status})` : ''
-            }`
-          );
-          continue; // Retry
-        } else {
-          throw new Error(
-            `HTTP request failed: ${error.message}${
-              error.response ? ` (Status: ${error.response.status})` : ''
-            }`
-          );
-        }
+      if (!axios.isAxiosError(error)) {
+        throw error;
       }
-      throw error;
+
+      const message = `HTTP request failed: ${error.message}${error.code ? ` (${error.code})` : ''}`;
+      if (!retry || attempts >= maxAttempts || !isRetryableError(retry, error.code)) {
+        throw new Error(attempts > 1 ? `${message} after ${attempts} attempts` : message);
+      }
+      reason = error.code as string;
     }
+
+    const delay = retryDelay(retry, attempts, retryAfter);
+    log.warning(
+      `Request failed (${reason}), retry ${attempts}/${maxAttempts - 1} after ${delay}ms` +
+      `${retryAfter !== undefined ? ' (Retry-After)' : ''}...`
+    );
+    await sleep(delay);
   }
 
-  if (!response) {
-    throw lastError || new Error('HTTP request failed after retries');
+  if (attempts > 1) {
+    log.info(`Response received after ${attempts} attempts`);
   }
 
   const statusCode = response.status;
-  core.info(`Response status: ${statusCode}`);
+  log.info(`Response status: ${statusCode}`);
+
+  // follow-redirects records the last URL on the underlying response
+  const finalUrl = (response.request as { res?: { responseUrl?: string } } | undefined)?.res?.responseUrl || options.url;
+  if (finalUrl !== options.url) {
+    log.info(`Redirected to: ${redactUrl(finalUrl)}`);
+  }
+
+  // With max-redirects 0 the redirect itself is returned; it is not the content
+  if (statusCode >= 300 && statusCode < 400 && statusCode !== 304 && response.headers['location']) {
+    response.data.destroy();
+    throw unfollowedRedirectError(statusCode, response.headers['location'], options.url);
+  }
+
+  // 304 Not Modified: there is no body, downloadAsStream reports it
+  if (statusCode === 304) {
+    return {
+      statusCode,
+      finalUrl,
+      redirects: hops,
+      contentLength: 0,
+      etag: response.headers['etag'],
+      lastModified: response.headers['last-modified'],
+      responseHeaders: flattenHeaders(response.headers),
+      attempts,
+      body: response.data,
+    };
+  }
 
   // Check for error status codes
   if (statusCode >= 400) {
     throw new Error(
-      `HTTP request failed with status ${statusCode}: ${response.statusText}`
+      `HTTP request failed with status ${statusCode}: ${response.statusText}${attempts > 1 ? ` after ${attempts} attempts` : ''}`
     );
   }
 
   const contentType = response.headers['content-type'];
   const contentEncoding = response.headers['content-encoding'];
-  const contentLengthHeader = parseInt(response.headers['content-length'] || '0', 10);
+  let contentLengthHeader = parseInt(response.headers['content-length'] || '0', 10);
+  let body: Readable = response.data;
+
+  if (rangedDownload && statusCode === 206) {
+    const totalSize = parseContentRangeTotal(response.headers['content-range']);
+    if (totalSize === undefined) {
+      throw new Error(`Server returned 206 without a usable Content-Range header: ${response.headers['content-range']}`);
+    }
+    contentLengthHeader = totalSize;
+
+    if (totalSize > rangedDownload.rangeSize) {
+      // Remaining ranges: drop conditional headers, and use If-Range with a strong ETag
+      // so a source that changes mid-download fails instead of mixing versions
+      const rangeHeaders: Record<string, string> = { ...(config.headers as Record<string, string>) };
+      delete rangeHeaders['If-None-Match'];
+      delete rangeHeaders['If-Modified-Since'];
+      const etag = response.headers['etag'];
+      if (etag && !etag.startsWith('W/')) {
+        rangeHeaders['If-Range'] = etag;
+      }
+
+      const fetchRange: RangeFetcher = async (start, end) => {
+        const rangeResponse = await sendRequest({
+          ...config,
+          // The policy still applies, but these redirects are not part of the reported chain
+          ...redirectConfig(options.url, redirectPolicy, [], blockPrivateNetworks),
+          headers: { ...rangeHeaders, 'Range': `bytes=${start}-${end}` },
+          responseType: 'arraybuffer',
+        });
+        if (rangeResponse.status !== 206) {
+          throw new RangeStatusError(rangeResponse.status, parseRetryAfter(rangeResponse.headers['retry-after']));
+        }
+        return Buffer.from(rangeResponse.data);
+      };
+
+      body = createRangedStream(response.data, totalSize, { ...rangedDownload, retry }, fetchRange);
+    }
+  } else if (rangedDownload) {
+    log.info(`Server did not honor the range request (status ${statusCode}), downloading as a single stream`);
+  }
+
+  return {
+    statusCode,
+    finalUrl,
+    redirects: hops,
+    contentLength: contentLengthHeader,
+    contentType,
+    contentEncoding,
+    contentDisposition: response.headers['content-disposition'],
+    etag: response.headers['etag'],
+    lastModified: response.headers['last-modified'],
+    responseHeaders: flattenHeaders(response.headers),
+    attempts,
+    body,
+  };
+}
+
+// Source adapters by URL scheme; every one returns the same response shape
+const SOURCE_ADAPTERS: Record<string, SourceAdapter> = {
+  'http:': fetchHttp,
+  'https:': fetchHttp,
+  's3:': fetchS3Object,
+  'file:': readLocalFile,
+  'data:': decodeDataUrl,
+  'ftp:': fetchFtp,
+  'ftps:': fetchFtp,
+  'sftp:': fetchSftp,
+};
+
+// Schemes whose connections block-private-networks can check (file, FTP and SFTP sources cannot be)
+const PRIVATE_NETWORK_CHECKED_SCHEMES = ['http:', 'https:', 's3:', 'data:'];
+
+/**
+ * Get the adapter for the URL's scheme
+ */
+function getSourceAdapter(url: string, blockPrivateNetworks = false): SourceAdapter {
+  const scheme = /^([a-z][a-z0-9+.-]*:)/i.exec(url)?.[1].toLowerCase();
+  const adapter = scheme ? SOURCE_ADAPTERS[scheme] : undefined;
+  if (!adapter) {
+    throw new Error(`Invalid url: ${redactUrl(url)}. Must be one of: ${Object.keys(SOURCE_ADAPTERS).join(', ')} URLs`);
+  }
+  if (blockPrivateNetworks && !PRIVATE_NETWORK_CHECKED_SCHEMES.includes(scheme as string)) {
+    throw new Error(
+      `Refusing to read ${redactUrl(url)}: block-private-networks only allows ` +
+      `${PRIVATE_NETWORK_CHECKED_SCHEMES.join(', ')} URLs`
+    );
+  }
+  return adapter;
+}
 
-  core.info(`Content-Type: ${contentType || 'unknown'}`);
+/**
+ * Download content from URL and return as a stream
+ * This allows streaming directly to S3 without storing locally
+ */
+export async function downloadAsStream(
+  options: DownloadOptions
+): Promise<DownloadResult> {
+  const fetchSource = getSourceAdapter(options.url, options.network?.blockPrivateNetworks);
+  log.info(`Downloading from ${redactUrl(options.url)}`);
+
+  const source = await fetchSource(options);
+  const { statusCode, finalUrl, contentType, contentEncoding, attempts } = source;
+  const contentLengthHeader = source.contentLength;
+  let body = source.body;
+
+  // 304 Not Modified: the previously fetched content is still current, there is no body
+  if (statusCode === 304) {
+    log.info('Source not modified since the previous fetch');
+    body.destroy();
+
+    const emptyStream = new ByteCountingStream();
+    emptyStream.end();
+
+    return {
+      statusCode,
+      finalUrl,
+      redirects: source.redirects,
+      contentLengthHeader: 0,
+      etag: source.etag,
+      lastModified: source.lastModified,
+      notModified: true,
+      responseHeaders: source.responseHeaders,
+      attempts,
+      stream: emptyStream,
+    };
+  }
+
+  log.info(`Content-Type: ${contentType || 'unknown'}`);
   if (contentEncoding) {
-    core.info(`Content-Encoding: ${contentEncoding} (response will be decompressed)`);
+    log.info(`Content-Encoding: ${contentEncoding} (${options.keepEncoding ? 'kept as received' : 'response will be decompressed'})`);
   }
   if (contentLengthHeader > 0) {
-    core.info(`Content-Length header: ${contentLengthHeader} bytes (${(contentLengthHeader / 1024 / 1024).toFixed(2)} MB)`);
+    log.info(`Content-Length header: ${contentLengthHeader} bytes (${(contentLengthHeader / 1024 / 1024).toFixed(2)} MB)`);
   } else {
-    core.info(`Content-Length header: not set (chunked transfer encoding)`);
+    log.info(`Content-Length header: not set (chunked transfer encoding)`);
+  }
+
+  if (options.expectedChecksum) {
+    log.info(`Expected checksum: ${options.expectedChecksum.algorithm} ${options.expectedChecksum.digest}`);
+  }
+
+  // Validation gates: reject on headers before reading, then check the body as it streams
+  if (options.validation) {
+    try {
+      checkResponseHeaders(
+        options.validation,
+        contentType,
+        contentLengthHeader,
+        options.keepEncoding ? undefined : contentEncoding
+      );
+    } catch (error) {
+      body.destroy();
+      throw error;
+    }
+
+    if (needsBodyValidation(options.validation)) {
+      const validator = new ValidatingStream(options.validation);
+      body.on('error', (error: Error) => validator.destroy(error));
+      body = body.pipe(validator);
+    }
   }
 
-  // Create a byte-counting stream to track actual bytes transferred
-  const byteCounter = new ByteCountingStream();
+  // Create a byte-counting stream to track actual bytes transferred and compute checksums
+  const byteCounter = new ByteCountingStream(options.expectedChecksum);
 
   // Pipe response through our tracking stream
-  response.data.pipe(byteCounter);
+  body.pipe(byteCounter);
 
   // Handle errors on the source stream
-  response.data.on('error', (error: Error) => {
+  body.on('error', (error: Error) => {
     byteCounter.destroy(error);
   });
 
   return {
     statusCode,
+    finalUrl,
+    redirects: source.redirects,
     contentLengthHeader: contentLengthHeader || 0,
     contentType,
     contentEncoding,
+    contentDisposition: source.contentDisposition,
+    etag: source.etag,
+    lastModified: source.lastModified,
+    responseHeaders: source.responseHeaders,
+    attempts,
     stream: byteCounter,
   };
 }
@@ -0,0 +1,88 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import * as tar from 'tar-stream';
+import { readSharedOptions, readTransferOptions, silentLogger, urlToS3 } from './lib';
+import { withLogger } from './logger';
+
+/**
+ * Build a tar archive from name → content pairs
+ */
+async function tarball(files: Record<string, string>): Promise<Buffer> {
+  const pack = tar.pack();
+  for (const [name, content] of Object.entries(files)) {
+    pack.entry({ name }, content);
+  }
+  pack.finalize();
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of pack) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+describe('archive extraction', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'url-to-s3-test-'));
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const extract = (archive: Buffer, inputs: Record<string, string> = {}) => {
+    const all: Record<string, string> = {
+      'url': `data:application/octet-stream;base64,${archive.toString('base64')}`,
+      'destination-url': `file://${dir}/out/`,
+      'extract': 'auto',
+      ...inputs,
+    };
+    const input = (name: string) => all[name] ?? '';
+    return withLogger(silentLogger, () => urlToS3(readTransferOptions(input, readSharedOptions(input))));
+  };
+
+  it('unpacks a tar.gz under the prefix, applying include and exclude globs', async () => {
+    const archive = zlib.gzipSync(await tarball({
+      'docs/readme.md': '# hi',
+      'docs/skip.tmp': 'x',
+      'bin/tool': 'binary',
+    }));
+
+    const result = await extract(archive, { 'extract-include': 'docs/**', 'extract-exclude': '**/*.tmp' });
+
+    expect(result.extractedKeys).toEqual([expect.stringMatching(/out\/docs\/readme\.md$/)]);
+    expect(fs.readFileSync(path.join(dir, 'out', 'docs', 'readme.md'), 'utf8')).toBe('# hi');
+    expect(fs.existsSync(path.join(dir, 'out', 'bin'))).toBe(false);
+  });
+
+  it('adds the missing slash to the s3-key prefix', async () => {
+    const archive = await tarball({ 'readme.md': '# hi', 'api/index.html': '<html>' });
+
+    const result = await extract(archive, { 'destination-url': `file://${dir}/docs/1.2.3` });
+
+    // file:// keys are paths relative to the file system root
+    const folder = path.relative(path.parse(dir).root, dir).split(path.sep).join('/');
+    expect(result.extractedKeys).toEqual([`${folder}/docs/1.2.3/readme.md`, `${folder}/docs/1.2.3/api/index.html`]);
+    expect(fs.readFileSync(path.join(dir, 'docs', '1.2.3', 'readme.md'), 'utf8')).toBe('# hi');
+  });
+
+  it('refuses entries that escape the prefix (zip-slip) or are absolute', async () => {
+    await expect(extract(await tarball({ 'ok.txt': 'a', '../evil.txt': 'b' })))
+      .rejects.toThrow('Archive entry path escapes the extraction prefix: ../evil.txt');
+    expect(fs.existsSync(path.join(dir, 'evil.txt'))).toBe(false);
+
+    await expect(extract(await tarball({ '/etc/passwd': 'root' }))).rejects.toThrow('Archive entry has an absolute path: /etc/passwd');
+  });
+
+  it('stops at extract-max-bytes and extract-max-entries', async () => {
+    const archive = await tarball({ 'a.txt': '0123456789', 'b.txt': '0123456789', 'c.txt': '0123456789' });
+
+    await expect(extract(archive, { 'extract-max-bytes': '15' }))
+      .rejects.toThrow('Extracted content exceeds extract-max-bytes (15 bytes) at b.txt');
+    await expect(extract(archive, { 'extract-max-entries': '2' }))
+      .rejects.toThrow('Archive has more than extract-max-entries (2) entries');
+  });
+});
@@ -0,0 +1,274 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { Readable, Transform, TransformCallback } from 'stream';
+import { pipeline } from 'stream/promises';
+import * as tar from 'tar-stream';
+import * as yauzl from 'yauzl';
+import picomatch from 'picomatch';
+import { log } from './logger';
+import { downloadAsStream } from './download';
+import { objectUrl, writeObject } from './storage';
+import { createZstdDecompress } from './codec';
+import { contentTypeForFilename, hasKeyPlaceholders, resolveKeyTemplate } from './key-template';
+import type { TransferOptions, TransferResult } from './transfer';
+
+export type ArchiveFormat = 'zip' | 'tar' | 'tar.gz' | 'tar.zst';
+export type ExtractFormat = 'auto' | ArchiveFormat;
+
+export interface ExtractOptions {
+  format: ExtractFormat;
+  include?: string[]; // Globs matched against entry paths; all entries when empty
+  exclude?: string[];
+  maxBytes: number; // Cap on the total extracted bytes (zip bomb guard)
+  maxEntries: number; // Cap on the number of entries in the archive
+}
+
+/**
+ * An archive member ready to be uploaded
+ */
+interface ArchiveEntry {
+  name: string;
+  size: number;
+  isFile: boolean;
+  open: () => Promise<Readable>;
+  skip: () => void;
+}
+
+const EXTRACT_FORMATS: ExtractFormat[] = ['auto', 'zip', 'tar', 'tar.gz', 'tar.zst'];
+
+export const DEFAULT_EXTRACT_MAX_BYTES = 10 * 1024 ** 3; // 10 GiB
+export const DEFAULT_EXTRACT_MAX_ENTRIES = 10000;
+
+/**
+ * Validate extraction options
+ */
+export function validateExtractOptions(options: ExtractOptions): ExtractOptions {
+  if (!EXTRACT_FORMATS.includes(options.format)) {
+    throw new Error(`Invalid extract: ${options.format}. Must be one of: none, ${EXTRACT_FORMATS.join(', ')}`);
+  }
+  if (isNaN(options.maxBytes) || options.maxBytes < 1) {
+    throw new Error('extract-max-bytes must be a positive size');
+  }
+  if (isNaN(options.maxEntries) || options.maxEntries < 1) {
+    throw new Error('extract-max-entries must be a positive integer');
+  }
+  return options;
+}
+
+/**
+ * Detect the archive format from the file's magic bytes
+ */
+function detectArchiveFormat(filePath: string): ArchiveFormat {
+  const header = Buffer.alloc(512);
+  const fd = fs.openSync(filePath, 'r');
+  let length: number;
+  try {
+    length = fs.readSync(fd, header, 0, header.length, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  if (length >= 4 && header.readUInt32LE(0) === 0x04034b50) return 'zip';
+  if (length >= 4 && header.readUInt32LE(0) === 0x06054b50) return 'zip'; // Empty zip
+  if (length >= 2 && header[0] === 0x1f && header[1] === 0x8b) return 'tar.gz';
+  if (length >= 4 && header.readUInt32LE(0) === 0xfd2fb528) return 'tar.zst';
+  if (length >= 262 && header.toString('ascii', 257, 262) === 'ustar') return 'tar';
+
+  throw new Error('Could not detect the archive format, set extract to zip, tar, tar.gz or tar.zst');
+}
+
+/**
+ * Normalize an entry path and reject paths that would escape the prefix (zip-slip)
+ */
+function safeEntryPath(name: string): string {
+  const normalized = name.replace(/\\/g, '/');
+  if (normalized.startsWith('/') || /^[a-z]:/i.test(normalized)) {
+    throw new Error(`Archive entry has an absolute path: ${name}`);
+  }
+  if (normalized.split('/').includes('..')) {
+    throw new Error(`Archive entry path escapes the extraction prefix: ${name}`);
+  }
+  return path.posix.normalize(normalized).replace(/^(\.\/)+/, '');
+}
+
+/**
+ * Shared byte budget across all entries; errors the stream once the cap is crossed
+ */
+class ExtractionBudget {
+  public bytes = 0;
+
+  constructor(private readonly maxBytes: number) {}
+
+  meter(): Transform {
+    return new Transform({
+      transform: (chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) => {
+        this.bytes += chunk.length;
+        if (this.bytes > this.maxBytes) {
+          callback(new Error(`Extracted content exceeds extract-max-bytes (${this.maxBytes} bytes)`));
+          return;
+        }
+        callback(null, chunk);
+      },
+    });
+  }
+}
+
+/**
+ * Iterate over the members of a zip archive
+ */
+async function* zipEntries(filePath: string, maxEntries: number): AsyncGenerator<ArchiveEntry> {
+  const zipFile = await yauzl.openPromise(filePath, { lazyEntries: true, validateEntrySizes: true });
+  try {
+    // The central directory gives the entry count up front, so oversized archives fail before any upload
+    if (zipFile.entryCount > maxEntries) {
+      throw new Error(`Archive has ${zipFile.entryCount} entries, more than extract-max-entries (${maxEntries})`);
+    }
+
+    for await (const entry of zipFile.eachEntry()) {
+      yield {
+        name: entry.fileName,
+        size: entry.uncompressedSize,
+        isFile: !entry.fileName.endsWith('/'),
+        open: () => zipFile.openReadStreamPromise(entry),
+        skip: () => undefined,
+      };
+    }
+  } finally {
+    zipFile.close();
+  }
+}
+
+/**
+ * Iterate over the members of a tar archive, decompressing it on the fly
+ */
+async function* tarEntries(filePath: string, format: ArchiveFormat): AsyncGenerator<ArchiveEntry> {
+  const extract = tar.extract();
+  const source = fs.createReadStream(filePath);
+  const decompressor = format === 'tar.gz' ? zlib.createGunzip() : format === 'tar.zst' ? createZstdDecompress() : undefined;
+  const feed = decompressor ? pipeline(source, decompressor, extract) : pipeline(source, extract);
+  feed.catch((error) => extract.destroy(error));
+
+  for await (const entry of extract) {
+    yield {
+      name: entry.header.name,
+      size: entry.header.size ?? 0,
+      isFile: entry.header.type === 'file' || entry.header.type === 'contiguous-file',
+      open: async () => Readable.from(entry),
+      skip: () => entry.resume(),
+    };
+  }
+  await feed;
+}
+
+/**
+ * Download an archive and upload each of its entries under the s3-key prefix
+ * The archive is staged in a temporary file first, so checksums and validation
+ * are checked before any entry is written and zip central directories can be read
+ */
+export async function extractTransfer(
+  options: TransferOptions,
+  extract: ExtractOptions
+): Promise<TransferResult> {
+  if (options.ifNotExists || options.ifChanged || options.upload.ifMatch || options.skipIfIdentical) {
+    throw new Error('if-not-exists, if-changed, if-match and skip-if-identical cannot be combined with extract');
+  }
+  if (options.provenance) {
+    throw new Error('provenance cannot be combined with extract');
+  }
+  if ((options.transform && options.transform !== 'none') || options.download.keepEncoding) {
+    throw new Error('transform and keep-encoding cannot be combined with extract');
+  }
+  if (options.fanOut) {
+    throw new Error('destinations cannot be combined with extract');
+  }
+
+  const downloadResult = await downloadAsStream(options.download);
+
+  const tempDir = fs.mkdtempSync(path.join(process.env.RUNNER_TEMP || os.tmpdir(), 'url-to-s3-'));
+  const archivePath = path.join(tempDir, 'archive');
+
+  try {
+    await pipeline(downloadResult.stream, fs.createWriteStream(archivePath));
+    const archiveBytes = downloadResult.stream.getBytesTransferred();
+    const checksums = downloadResult.stream.getChecksums();
+    log.info(`Archive downloaded: ${archiveBytes} bytes (${(archiveBytes / 1024 / 1024).toFixed(2)} MB)`);
+
+    const resolvedKey = hasKeyPlaceholders(options.upload.key)
+      ? resolveKeyTemplate(options.upload.key, {
+        now: new Date(),
+        url: options.download.url,
+        statusCode: downloadResult.statusCode,
+        contentType: downloadResult.contentType,
+        contentDisposition: downloadResult.contentDisposition,
+        checksums,
+      })
+      : options.upload.key;
+    // Entries go in the s3-key folder: docs/1.2.3 → docs/1.2.3/readme.md
+    const prefix = !resolvedKey || resolvedKey.endsWith('/') ? resolvedKey : `${resolvedKey}/`;
+
+    const format = extract.format === 'auto' ? detectArchiveFormat(archivePath) : extract.format;
+    log.info(`Extracting ${format} archive to ${objectUrl({ ...options.upload, key: prefix })}`);
+
+    const isIncluded = extract.include && extract.include.length > 0
+      ? picomatch(extract.include, { dot: true })
+      : () => true;
+    const isExcluded = extract.exclude && extract.exclude.length > 0
+      ? picomatch(extract.exclude, { dot: true })
+      : () => false;
+
+    const budget = new ExtractionBudget(extract.maxBytes);
+    const extractedKeys: string[] = [];
+    let entryCount = 0;
+
+    const entries = format === 'zip' ? zipEntries(archivePath, extract.maxEntries) : tarEntries(archivePath, format);
+    for await (const entry of entries) {
+      entryCount++;
+      if (entryCount > extract.maxEntries) {
+        throw new Error(`Archive has more than extract-max-entries (${extract.maxEntries}) entries`);
+      }
+
+      const entryPath = safeEntryPath(entry.name);
+      if (!entry.isFile || entryPath === '.' || !isIncluded(entryPath) || isExcluded(entryPath)) {
+        entry.skip();
+        continue;
+      }
+      if (budget.bytes + entry.size > extract.maxBytes) {
+        throw new Error(`Extracted content exceeds extract-max-bytes (${extract.maxBytes} bytes) at ${entryPath}`);
+      }
+
+      const key = `${prefix}${entryPath}`;
+      const source = await entry.open();
+      const meter = budget.meter();
+      source.on('error', (error: Error) => meter.destroy(error));
+
+      await writeObject({
+        ...options.upload,
+        key,
+        stream: source.pipe(meter),
+        contentLengthHint: entry.size,
+        contentType: options.upload.contentType || contentTypeForFilename(entryPath),
+      });
+      extractedKeys.push(key);
+    }
+
+    log.info(`Extracted ${extractedKeys.length} of ${entryCount} entries (${budget.bytes} bytes)`);
+
+    return {
+      statusCode: downloadResult.statusCode,
+      attempts: downloadResult.attempts,
+      finalUrl: downloadResult.finalUrl,
+      redirects: downloadResult.redirects,
+      bytesTransferred: archiveBytes,
+      s3Url: objectUrl({ ...options.upload, key: prefix }),
+      etag: '',
+      objectExisted: false,
+      checksums,
+      extractedKeys,
+      extractedBytes: budget.bytes,
+    };
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,269 @@
+import YAML from 'yaml';
+import { PassThrough, Readable } from 'stream';
+import { log } from './logger';
+import { readManifestSource } from './manifest';
+import { UploadOptions } from './upload';
+import { objectUrl, parseDestinationUrl, StorageType, writeObject } from './storage';
+
+export type FanOutPolicy = 'abort' | 'continue';
+
+/**
+ * One S3 copy of the download
+ * Unset fields fall back to the step-level inputs
+ */
+export interface Destination {
+  storage?: StorageType;
+  bucket: string;
+  key: string;
+  region?: string;
+  bucketOwner?: string;
+  storageClass?: string;
+}
+
+export interface FanOutOptions {
+  destinations: Destination[];
+  onError: FanOutPolicy; // abort: one failure cancels the other uploads; continue: the others finish
+}
+
+export interface DestinationResult {
+  bucket: string;
+  key: string;
+  s3Url: string;
+  status: 'success' | 'failed' | 'aborted';
+  etag: string;
+  versionId?: string;
+  provenanceUrl?: string; // Sidecar provenance record (provenance only)
+  error?: string;
+}
+
+const FAN_OUT_POLICIES: FanOutPolicy[] = ['abort', 'continue'];
+
+/**
+ * Validate the fan-out failure policy
+ */
+export function validateFanOutPolicy(policy?: string): FanOutPolicy {
+  if (!policy) return 'abort';
+
+  if (!FAN_OUT_POLICIES.includes(policy as FanOutPolicy)) {
+    throw new Error(`Invalid destinations-on-error: ${policy}. Must be one of: ${FAN_OUT_POLICIES.join(', ')}`);
+  }
+
+  return policy as FanOutPolicy;
+}
+
+/**
+ * Read an optional string field from a raw destination
+ */
+function readField(raw: Record<string, unknown>, index: number, ...names: string[]): string | undefined {
+  for (const name of names) {
+    const value = raw[name];
+    if (value === undefined || value === null || value === '') continue;
+    if (typeof value !== 'string') {
+      throw new Error(`Destination ${index}: ${name} must be a string`);
+    }
+    return value;
+  }
+  return undefined;
+}
+
+/**
+ * Parse the destinations input: inline JSON/YAML or a path to a file in the workspace
+ * Each destination needs a url, or a bucket and key, which default to s3-bucket and s3-key
+ */
+export function parseDestinations(input: string, defaultBucket: string, defaultKey: string): Destination[] {
+  let document: unknown;
+  try {
+    document = YAML.parse(readManifestSource(input));
+  } catch (error) {
+    throw new Error(`Failed to parse destinations: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!Array.isArray(document) || document.length === 0) {
+    throw new Error('destinations must be a non-empty list');
+  }
+
+  const destinations = document.map((raw: unknown, position): Destination => {
+    const index = position + 1;
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      throw new Error(`Destination ${index} must be an object`);
+    }
+
+    const entry = raw as Record<string, unknown>;
+    const url = readField(entry, index, 'url', 'destination-url');
+    const location = url ? parseDestinationUrl(url, `destination ${index} url`) : undefined;
+    if (location && (readField(entry, index, 'bucket', 's3-bucket') || readField(entry, index, 'key', 's3-key'))) {
+      throw new Error(`Destination ${index}: url cannot be combined with bucket or key`);
+    }
+    const bucket = location ? location.bucket : readField(entry, index, 'bucket', 's3-bucket') || defaultBucket;
+    const key = location ? location.key : readField(entry, index, 'key', 's3-key') || defaultKey;
+    if (!bucket) {
+      throw new Error(`Destination ${index} has no bucket and s3-bucket input is empty`);
+    }
+    if (!key) {
+      throw new Error(`Destination ${index} has no key and s3-key input is empty`);
+    }
+
+    return {
+      storage: location?.storage,
+      bucket,
+      key,
+      region: readField(entry, index, 'region', 's3-region'),
+      bucketOwner: readField(entry, index, 'bucket-owner'),
+      storageClass: readField(entry, index, 'storage-class'),
+    };
+  });
+
+  const seen = new Set<string>();
+  for (const destination of destinations) {
+    const url = objectUrl(destination);
+    if (seen.has(url)) {
+      throw new Error(`Duplicate destination: ${url}`);
+    }
+    seen.add(url);
+  }
+
+  return destinations;
+}
+
+/**
+ * Split one readable into several branches that each receive every chunk
+ * The source is paused while any branch is over its high-water mark, so the
+ * slowest upload sets the pace and nothing is buffered without bound.
+ */
+class StreamTee {
+  readonly branches: PassThrough[];
+  private readonly active: Set<PassThrough>;
+  private readonly waiting = new Set<PassThrough>();
+  private aborted = false;
+  sourceError?: Error;
+
+  constructor(private readonly source: Readable, count: number) {
+    this.branches = Array.from({ length: count }, () => new PassThrough());
+    this.active = new Set(this.branches);
+
+    source.on('data', (chunk: Buffer) => {
+      for (const branch of this.active) {
+        if (!branch.write(chunk) && !this.waiting.has(branch)) {
+          this.waiting.add(branch);
+          branch.once('drain', () => this.release(branch));
+        }
+      }
+      if (this.waiting.size > 0) {
+        source.pause();
+      }
+    });
+    source.on('end', () => {
+      for (const branch of this.active) {
+        branch.end();
+      }
+    });
+    source.on('error', (error: Error) => {
+      if (!this.aborted) {
+        this.sourceError = error;
+      }
+      for (const branch of this.active) {
+        branch.destroy(error);
+      }
+    });
+  }
+
+  private release(branch: PassThrough): void {
+    if (this.waiting.delete(branch) && this.waiting.size === 0) {
+      this.source.resume();
+    }
+  }
+
+  /**
+   * Stop feeding a failed branch so it no longer holds back the others
+   */
+  detach(branch: PassThrough): void {
+    this.active.delete(branch);
+    this.release(branch);
+    branch.destroy();
+    if (this.active.size === 0) {
+      this.source.destroy();
+    }
+  }
+
+  /**
+   * Cancel the download and every remaining branch
+   */
+  abort(reason: Error): void {
+    this.aborted = true;
+    this.source.destroy(reason);
+  }
+}
+
+/**
+ * Upload options for one destination: its bucket, plus any per-destination overrides
+ */
+export function destinationUploadOptions<T extends Omit<UploadOptions, 'stream' | 'bucket' | 'key'>>(
+  upload: T,
+  destination: Destination
+): T & { bucket: string } {
+  return {
+    ...upload,
+    storage: destination.storage,
+    bucket: destination.bucket,
+    bucketOwner: destination.bucketOwner || upload.bucketOwner,
+    storageClass: destination.storageClass || upload.storageClass,
+    clientOptions: destination.region
+      ? { ...upload.clientOptions, region: destination.region }
+      : upload.clientOptions,
+  };
+}
+
+/**
+ * Upload one stream to every destination at the same time
+ * Throws the download's own error (e.g., checksum or validation failure) when the
+ * source fails; per-destination upload failures are reported in the results.
+ */
+export async function uploadToDestinations(
+  stream: Readable,
+  upload: Omit<UploadOptions, 'stream' | 'bucket' | 'key'>,
+  fanOut: FanOutOptions,
+  resolveKey: (keyTemplate: string) => string
+): Promise<DestinationResult[]> {
+  const keys = fanOut.destinations.map((destination) => resolveKey(destination.key));
+  const tee = new StreamTee(stream, fanOut.destinations.length);
+  let failedDestination: string | undefined;
+
+  log.info(`Uploading to ${fanOut.destinations.length} destinations (on error: ${fanOut.onError})`);
+
+  const results = await Promise.all(fanOut.destinations.map(async (destination, index): Promise<DestinationResult> => {
+    const key = keys[index];
+    const s3Url = objectUrl({ ...destination, key });
+    const branch = tee.branches[index];
+
+    try {
+      const result = await writeObject({
+        ...destinationUploadOptions(upload, destination),
+        key,
+        stream: branch,
+      });
+      return { bucket: destination.bucket, key, s3Url, status: 'success', etag: result.etag, versionId: result.versionId };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (failedDestination !== undefined && !tee.sourceError) {
+        return { bucket: destination.bucket, key, s3Url, status: 'aborted', etag: '', error: `Aborted: ${failedDestination} failed` };
+      }
+
+      log.error(`Upload to ${s3Url} failed: ${message}`);
+      if (!tee.sourceError) {
+        if (fanOut.onError === 'abort' && failedDestination === undefined) {
+          failedDestination = s3Url;
+          tee.abort(new Error(`upload to ${s3Url} failed`));
+        } else {
+          tee.detach(branch);
+        }
+      }
+      return { bucket: destination.bucket, key, s3Url, status: 'failed', etag: '', error: message };
+    }
+  }));
+
+  if (tee.sourceError) {
+    throw tee.sourceError;
+  }
+
+  return results;
+}
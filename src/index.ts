@@ -1,284 +1,350 @@
 import * as core from '@actions/core';
-import { S3Client, HeadObjectCommand } from '@aws-sdk/client-s3';
-import { downloadAsStream, parseHeaders } from './download';
-import { uploadStreamToS3, parseMetadata, parseTags } from './upload';
+import { Logger, withLogger } from './logger';
+import {
+  countOutcomes,
+  describeSkip,
+  logErrorDetails,
+  manifestOutputs,
+  readManifestSettings,
+  readSharedOptions,
+  readTransferOptions,
+  TransferResult,
+  transferOutputs,
+  urlToS3,
+  urlToS3Manifest,
+  ValidationError,
+} from './lib';
+import { redactUrl } from './redact';
 
 /**
- * Check if an S3 object exists
- * Returns true if the object exists, false otherwise
+ * Logger that writes to the runner log and masks secrets with the runner
  */
-async function objectExists(s3Client: S3Client, bucket: string, key: string): Promise<boolean> {
-  try {
-    await s3Client.send(new HeadObjectCommand({
-      Bucket: bucket,
-      Key: key,
-    }));
-    return true;
-  } catch (error: any) {
-    if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) {
-      return false;
-    }
-    // Re-throw other errors (permissions, etc.)
-    throw error;
+const actionsLogger: Logger = {
+  info: (message) => core.info(message),
+  warning: (message) => core.warning(message),
+  error: (message) => core.error(message),
+  setSecret: (value) => core.setSecret(value),
+};
+
+/**
+ * Set the step outputs; non-string values are written as JSON
+ */
+function setOutputs(outputs: Record<string, unknown>): void {
+  for (const [name, value] of Object.entries(outputs)) {
+    core.setOutput(name, value);
   }
 }
 
+type SummaryRows = Parameters<typeof core.summary.addTable>[0];
+
 /**
- * Main action entry point
- * Streams content directly from URL to S3 without storing locally
+ * Summary row for the polling done before the transfer (wait-for)
  */
-async function run(): Promise<void> {
+function waitRows(result: TransferResult): SummaryRows {
+  return result.waitAttempts !== undefined
+    ? [[
+      {data: 'Waited', header: true},
+      `${result.waitAttempts} ${result.waitAttempts === 1 ? 'poll' : 'polls'}, ${((result.waitedMs ?? 0) / 1000).toFixed(1)} s`,
+    ]]
+    : [];
+}
+
+/**
+ * Summary rows for the redirect chain, when the source redirected
+ */
+function redirectRows(result: TransferResult): SummaryRows {
+  return result.redirects?.length && result.finalUrl
+    ? [
+      [
+        {data: 'Redirects', header: true},
+        result.redirects.map((hop) => `${hop.statusCode} → ${redactUrl(hop.url)}`).join('<br>'),
+      ],
+      [{data: 'Final URL', header: true}, redactUrl(result.finalUrl)],
+    ]
+    : [];
+}
+
+/**
+ * Single transfer mode: one url / s3-bucket / s3-key triple
+ */
+async function runSingle(): Promise<void> {
   // Get inputs outside try block so they're available in catch for error summary
   const url = core.getInput('url', { required: true });
-  const s3Bucket = core.getInput('s3-bucket', { required: true });
-  const s3Key = core.getInput('s3-key', { required: true });
+  const destinationUrl = core.getInput('destination-url');
+  const destinationsInput = core.getInput('destinations');
+  const s3Bucket = core.getInput('s3-bucket', { required: !destinationsInput && !destinationUrl });
+  const s3Key = core.getInput('s3-key', { required: !destinationsInput && !destinationUrl });
+  const target = destinationsInput ? 'destinations' : destinationUrl || `s3://${s3Bucket}/${s3Key}`;
 
   try {
+    const shared = readSharedOptions(core.getInput);
+    const result = await urlToS3(readTransferOptions(core.getInput, shared));
 
-    const method = core.getInput('method') || 'GET';
-    const headersInput = core.getInput('headers');
-    const postData = core.getInput('post-data');
-    const timeout = parseInt(core.getInput('timeout') || '900000', 10);
-    const enableRetry = core.getInput('enable-retry') === 'true';
-
-    const authType = core.getInput('auth-type') as 'none' | 'basic' | 'bearer';
-    const authUsername = core.getInput('auth-username');
-    const authPassword = core.getInput('auth-password');
-    const authToken = core.getInput('auth-token');
-
-    const bucketOwner = core.getInput('bucket-owner');
-    const acl = core.getInput('acl');
-    const storageClass = core.getInput('storage-class') || 'STANDARD';
-    const contentTypeOverride = core.getInput('content-type');
-    const cacheControl = core.getInput('cache-control');
-    const metadataInput = core.getInput('metadata');
-    const tagsInput = core.getInput('tags');
-    const ifNotExists = core.getInput('if-not-exists') === 'true';
-
-    // Parse headers, metadata, and tags
-    const headers = parseHeaders(headersInput);
-    const metadata = parseMetadata(metadataInput);
-    const tags = parseTags(tagsInput);
-
-    // Check if object exists BEFORE downloading (if if-not-exists flag is set)
-    // This avoids unnecessary bandwidth usage when the object already exists
-    if (ifNotExists) {
-      core.info('Checking if S3 object already exists...');
-      const s3Client = new S3Client({
-        requestChecksumCalculation: 'WHEN_REQUIRED',
-      });
-      const exists = await objectExists(s3Client, s3Bucket, s3Key);
-
-      if (exists) {
-        core.info(`Object already exists at s3://${s3Bucket}/${s3Key}`);
-        core.info('Skipping download and upload due to if-not-exists flag');
-
-        const s3Url = `s3://${s3Bucket}/${s3Key}`;
-
-        // Set outputs for skipped operation
-        core.setOutput('status-code', '0'); // No HTTP request made
-        core.setOutput('content-length', '0'); // No bytes transferred
-        core.setOutput('s3-url', s3Url);
-        core.setOutput('s3-etag', ''); // Unknown etag
-        core.setOutput('object-existed', 'true');
-
-        // Write summary to GitHub Step Summary
-        await core.summary
-          .addHeading('URL to S3 Transfer Summary')
-          .addTable([
-            [{data: 'Source URL', header: true}, url],
-            [{data: 'Target S3', header: true}, s3Url],
-            [{data: 'Status', header: true}, '⏭️ Skipped (object already exists)'],
-            [{data: 'Bytes Transferred', header: true}, '0'],
-          ])
-          .write();
-
-        core.info('✓ Action completed - object already existed, no download or upload needed');
-        return; // Exit early
-      }
+    // Set all outputs ONLY after the entire operation succeeds
+    setOutputs(transferOutputs(result));
+
+    if (result.notModified) {
+      // Write summary to GitHub Step Summary
+      await core.summary
+        .addHeading('URL to S3 Transfer Summary')
+        .addTable([
+          [{data: 'Source URL', header: true}, redactUrl(url)],
+          ...redirectRows(result),
+          [{data: 'Target S3', header: true}, result.s3Url],
+          [{data: 'Status', header: true}, '⏭️ Skipped (source not modified)'],
+          ...waitRows(result),
+          [{data: 'HTTP Status', header: true}, result.statusCode.toString()],
+          [{data: 'Bytes Transferred', header: true}, '0'],
+        ])
+        .write();
 
-      core.info('Object does not exist, proceeding with download and upload');
+      core.info('✓ Action completed - source not modified, no upload needed');
+      return;
     }
 
-    core.info('Starting streaming download from URL...');
-
-    // Download from URL (returns a stream)
-    const downloadResult = await downloadAsStream({
-      url,
-      method: method.toUpperCase(),
-      headers,
-      data: postData,
-      timeout,
-      enableRetry,
-      authType,
-      authUsername,
-      authPassword,
-      authToken,
-    });
-
-    core.info('HTTP request successful, streaming to S3...');
-
-    // Determine content type (use override if provided, otherwise use detected)
-    const contentType = contentTypeOverride || downloadResult.contentType;
-
-    // Upload to S3 (streaming directly from download)
-    // Note: We've already checked if-not-exists upfront, so no need to check again
-    const uploadResult = await uploadStreamToS3({
-      bucket: s3Bucket,
-      key: s3Key,
-      stream: downloadResult.stream,
-      contentLengthHint: downloadResult.contentLengthHeader,
-      contentType,
-      bucketOwner: bucketOwner || undefined,
-      acl: acl || undefined,
-      storageClass,
-      cacheControl: cacheControl || undefined,
-      metadata,
-      tags,
-    });
-
-    // Upload completed successfully
-    core.info('Stream upload completed successfully');
-
-    // Get actual bytes transferred (now that the stream has been fully consumed)
-    const actualBytesTransferred = downloadResult.stream.getBytesTransferred();
-    core.info(`Total bytes transferred: ${actualBytesTransferred} bytes (${(actualBytesTransferred / 1024 / 1024).toFixed(2)} MB)`);
-
-    // Verify against header if it was provided and there's no compression
-    // Note: When Content-Encoding is present (gzip, deflate, br, etc.), axios decompresses automatically,
-    // so actualBytesTransferred will be the decompressed size while Content-Length is the compressed size
-    if (downloadResult.contentLengthHeader > 0 && actualBytesTransferred !== downloadResult.contentLengthHeader) {
-      if (downloadResult.contentEncoding) {
-        core.info(
-          `Content-Length header (${downloadResult.contentLengthHeader} bytes) is compressed size, ` +
-          `actual decompressed size is ${actualBytesTransferred} bytes`
-        );
-      } else {
-        core.warning(
-          `Bytes transferred (${actualBytesTransferred}) differs from Content-Length header (${downloadResult.contentLengthHeader})`
-        );
-      }
+    if (result.contentChanged === false) {
+      // Write summary to GitHub Step Summary
+      await core.summary
+        .addHeading('URL to S3 Transfer Summary')
+        .addTable([
+          [{data: 'Source URL', header: true}, redactUrl(url)],
+          ...redirectRows(result),
+          [{data: 'Target S3', header: true}, result.s3Url],
+          [{data: 'Status', header: true}, '⏭️ Skipped (content identical)'],
+          ...waitRows(result),
+          [{data: 'HTTP Status', header: true}, result.statusCode.toString()],
+          [{data: 'Bytes Transferred', header: true}, result.bytesTransferred.toLocaleString()],
+          [{data: 'SHA-256', header: true}, result.checksums?.sha256 ?? ''],
+        ])
+        .write();
+
+      core.info('✓ Action completed - stored object has the same content, no upload needed');
+      return;
     }
 
-    // Set all outputs ONLY after the entire operation succeeds
-    core.setOutput('status-code', downloadResult.statusCode.toString());
-    core.setOutput('content-length', actualBytesTransferred.toString()); // Use actual bytes, not header
-    core.setOutput('s3-url', uploadResult.s3Url);
-    core.setOutput('s3-etag', uploadResult.etag);
-    core.setOutput('object-existed', 'false');
+    if (result.objectExisted) {
+      // Write summary to GitHub Step Summary
+      await core.summary
+        .addHeading('URL to S3 Transfer Summary')
+        .addTable([
+          [{data: 'Source URL', header: true}, redactUrl(url)],
+          ...redirectRows(result),
+          [{data: 'Target S3', header: true}, result.s3Url],
+          [{data: 'Status', header: true}, '⏭️ Skipped (object already exists)'],
+          ...waitRows(result),
+          [{data: 'Bytes Transferred', header: true}, '0'],
+        ])
+        .write();
+
+      core.info(result.statusCode === 0
+        ? '✓ Action completed - object already existed, no download or upload needed'
+        : '✓ Action completed - object was created during the download, existing object kept');
+      return;
+    }
+
+    const failedDestinations = result.destinations?.filter((destination) => destination.status !== 'success') ?? [];
 
     // Format bytes for display
-    const bytesFormatted = actualBytesTransferred.toLocaleString();
-    const mbFormatted = (actualBytesTransferred / 1024 / 1024).toFixed(2);
+    const bytesFormatted = result.bytesTransferred.toLocaleString();
+    const mbFormatted = (result.bytesTransferred / 1024 / 1024).toFixed(2);
 
     // Write summary to GitHub Step Summary
-    await core.summary
+    core.summary
       .addHeading('URL to S3 Transfer Summary')
       .addTable([
-        [{data: 'Source URL', header: true}, url],
-        [{data: 'Target S3', header: true}, uploadResult.s3Url],
-        [{data: 'Status', header: true}, '✅ Success'],
-        [{data: 'HTTP Status', header: true}, downloadResult.statusCode.toString()],
+        [{data: 'Source URL', header: true}, redactUrl(url)],
+        ...redirectRows(result),
+        [
+          {data: 'Target S3', header: true},
+          result.destinations ? `${result.destinations.length} destinations` : result.s3Url,
+        ],
+        [
+          {data: 'Status', header: true},
+          failedDestinations.length > 0
+            ? `❌ ${failedDestinations.length} of ${result.destinations?.length} destinations failed`
+            : '✅ Success',
+        ],
+        ...waitRows(result),
+        [{data: 'HTTP Status', header: true}, result.statusCode.toString()],
+        ...(result.attempts !== undefined && result.attempts > 1
+          ? [[{data: 'Attempts', header: true}, result.attempts.toString()]]
+          : []),
         [{data: 'Bytes Transferred', header: true}, `${bytesFormatted} (${mbFormatted} MB)`],
-        [{data: 'S3 ETag', header: true}, uploadResult.etag],
-      ])
-      .write();
+        ...(result.storedBytes !== undefined
+          ? [[{data: `Stored Bytes (${shared.transform})`, header: true}, result.storedBytes.toLocaleString()]]
+          : []),
+        [{data: 'S3 ETag', header: true}, result.etag],
+        ...(result.versionId
+          ? [[{data: 'Version ID', header: true}, result.versionId]]
+          : []),
+        ...(result.provenanceUrl
+          ? [[{data: 'Provenance', header: true}, result.provenanceUrl]]
+          : []),
+        ...(result.pageCount !== undefined
+          ? [[{data: 'Pages', header: true}, result.pageCount.toString()]]
+          : [[{data: 'SHA-256', header: true}, result.checksums?.sha256 ?? '']]),
+        ...(result.extractedKeys !== undefined
+          ? [[
+            {data: 'Extracted', header: true},
+            `${result.extractedKeys.length} files (${(result.extractedBytes ?? 0).toLocaleString()} bytes)`,
+          ]]
+          : []),
+        ...(result.latestUrl
+          ? [[{data: 'Latest Pointer', header: true}, result.latestUrl]]
+          : []),
+        ...(result.deletedKeys !== undefined
+          ? [[
+            {data: shared.snapshot?.dryRun ? 'Would Prune (dry run)' : 'Pruned', header: true},
+            `${result.deletedKeys.length} objects`,
+          ]]
+          : []),
+      ]);
+    if (result.destinations) {
+      core.summary.addTable([
+        [
+          {data: 'Destination', header: true},
+          {data: 'Status', header: true},
+          {data: 'S3 ETag / Error', header: true},
+        ],
+        ...result.destinations.map((destination) => [
+          destination.s3Url,
+          destination.status === 'success' ? '✅ Success' : destination.status === 'aborted' ? '⏹️ Aborted' : '❌ Failed',
+          destination.error ?? destination.etag,
+        ]),
+      ]);
+    }
+    await core.summary.write();
+
+    if (failedDestinations.length > 0) {
+      core.setFailed(`Action failed: ${failedDestinations.length} of ${result.destinations?.length} destinations failed`);
+      return;
+    }
 
     core.info('✓ Action completed successfully - content streamed directly to S3');
   } catch (error) {
     // Provide comprehensive error information for debugging
     core.error('Action failed with error:');
+    logErrorDetails(error);
 
-    if (error instanceof Error) {
-      core.error(`Error: ${error.message}`);
+    const errorMessage = error instanceof Error
+      ? error.message
+      : 'An unknown error occurred - check logs for details';
 
-      // Log stack trace for debugging
-      if (error.stack) {
-        core.error('Stack trace:');
-        core.error(error.stack);
-      }
+    // Write failure summary to GitHub Step Summary
+    await core.summary
+      .addHeading('URL to S3 Transfer Summary')
+      .addTable([
+        [{data: 'Source URL', header: true}, redactUrl(url)],
+        [{data: 'Target S3', header: true}, redactUrl(target)],
+        [{data: 'Status', header: true}, error instanceof ValidationError ? '❌ Validation failed' : '❌ Failed'],
+        [{data: 'Error', header: true}, errorMessage],
+      ])
+      .write();
 
-      // Check for AWS SDK specific errors
-      if ('Code' in error || '$metadata' in error) {
-        core.error('AWS SDK Error Details:');
-        const awsError = error as any;
-
-        if (awsError.Code) {
-          core.error(`  Error Code: ${awsError.Code}`);
-        }
-        if (awsError.$metadata) {
-          core.error(`  HTTP Status: ${awsError.$metadata.httpStatusCode}`);
-          core.error(`  Request ID: ${awsError.$metadata.requestId}`);
-          if (awsError.$metadata.attempts) {
-            core.error(`  Attempts: ${awsError.$metadata.attempts}`);
-          }
-        }
-        if (awsError.message) {
-          core.error(`  Message: ${awsError.message}`);
-        }
-      }
+    // Set the failure with a clear message
+    core.setFailed(error instanceof Error ? `Action failed: ${error.message}` : errorMessage);
+  }
+}
 
-      // Check for axios/HTTP specific errors
-      if ('response' in error) {
-        const axiosError = error as any;
-        core.error('HTTP Error Details:');
+/**
+ * Manifest mode: many URL → S3 key pairs in one step
+ */
+async function runManifest(): Promise<void> {
+  try {
+    const settings = readManifestSettings(core.getInput);
+    const shared = readSharedOptions(core.getInput);
+    const outcomes = await urlToS3Manifest(settings.entries, shared, settings);
 
-        if (axiosError.response) {
-          core.error(`  Status: ${axiosError.response.status} ${axiosError.response.statusText}`);
-          core.error(`  URL: ${axiosError.config?.url}`);
-          core.error(`  Method: ${axiosError.config?.method?.toUpperCase()}`);
+    const counts = countOutcomes(outcomes);
+    setOutputs(manifestOutputs(outcomes));
 
-          if (axiosError.response.headers) {
-            core.error('  Response Headers:');
-            core.error(JSON.stringify(axiosError.response.headers, null, 2));
+    // Write one row per entry to GitHub Step Summary
+    await core.summary
+      .addHeading('URL to S3 Transfer Summary')
+      .addRaw(`${counts.succeeded} succeeded, ${counts.skipped} skipped, ${counts.failed} failed`, true)
+      .addTable([
+        [
+          {data: 'Source URL', header: true},
+          {data: 'Target S3', header: true},
+          {data: 'Status', header: true},
+          {data: 'HTTP Status', header: true},
+          {data: 'Bytes Transferred', header: true},
+          {data: 'S3 ETag / Error', header: true},
+        ],
+        ...outcomes.map((outcome) => {
+          if (outcome.error !== undefined) {
+            const status = outcome.validationFailed ? '❌ Validation failed' : '❌ Failed';
+            return [redactUrl(outcome.entry.url), outcome.s3Url, status, '', '', outcome.error];
           }
-
-          if (axiosError.response.data) {
-            core.error('  Response Body:');
-            // Limit response body to first 500 chars to avoid log spam
-            const responseData = String(axiosError.response.data);
-            core.error(responseData.substring(0, 500) + (responseData.length > 500 ? '...' : ''));
+          const result = outcome.result as TransferResult;
+          const skipReason = describeSkip(result);
+          if (skipReason) {
+            return [
+              redactUrl(outcome.entry.url),
+              outcome.s3Url,
+              `⏭️ ${skipReason}`,
+              result.statusCode ? result.statusCode.toString() : '',
+              '0',
+              result.etag,
+            ];
           }
-        } else if (axiosError.request) {
-          core.error('  No response received from server');
-          core.error(`  URL: ${axiosError.config?.url}`);
-        }
+          return [
+            redactUrl(outcome.entry.url),
+            outcome.s3Url,
+            '✅ Success',
+            result.statusCode.toString(),
+            result.bytesTransferred.toLocaleString(),
+            result.etag,
+          ];
+        }),
+      ])
+      .write();
+
+    if (counts.failed > 0) {
+      const message = `${counts.failed} of ${outcomes.length} manifest entries failed`;
+      if (settings.failOnError) {
+        core.setFailed(`Action failed: ${message}`);
+      } else {
+        core.warning(`${message} (manifest-fail-on-error is false, not failing the step)`);
       }
+      return;
+    }
 
-      // Write failure summary to GitHub Step Summary
-      await core.summary
-        .addHeading('URL to S3 Transfer Summary')
-        .addTable([
-          [{data: 'Source URL', header: true}, url],
-          [{data: 'Target S3', header: true}, `s3://${s3Bucket}/${s3Key}`],
-          [{data: 'Status', header: true}, '❌ Failed'],
-          [{data: 'Error', header: true}, error.message],
-        ])
-        .write();
+    core.info(`✓ Action completed successfully - ${outcomes.length} manifest entries processed`);
+  } catch (error) {
+    core.error('Action failed with error:');
+    logErrorDetails(error);
 
-      // Set the failure with a clear message
-      core.setFailed(`Action failed: ${error.message}`);
-    } else {
-      // Handle non-Error objects
-      const errorMessage = 'An unknown error occurred - check logs for details';
+    const errorMessage = error instanceof Error
+      ? error.message
+      : 'An unknown error occurred - check logs for details';
 
-      // Write failure summary to GitHub Step Summary
-      await core.summary
-        .addHeading('URL to S3 Transfer Summary')
-        .addTable([
-          [{data: 'Source URL', header: true}, url],
-          [{data: 'Target S3', header: true}, `s3://${s3Bucket}/${s3Key}`],
-          [{data: 'Status', header: true}, '❌ Failed'],
-          [{data: 'Error', header: true}, errorMessage],
-        ])
-        .write();
+    await core.summary
+      .addHeading('URL to S3 Transfer Summary')
+      .addTable([
+        [{data: 'Manifest', header: true}, 'Could not be processed'],
+        [{data: 'Status', header: true}, '❌ Failed'],
+        [{data: 'Error', header: true}, errorMessage],
+      ])
+      .write();
 
-      core.error(`Unknown error type: ${typeof error}`);
-      core.error(`Error value: ${JSON.stringify(error, null, 2)}`);
-      core.setFailed(errorMessage);
-    }
+    core.setFailed(`Action failed: ${errorMessage}`);
   }
 }
 
+/**
+ * Main action entry point
+ * Streams content directly from URL to S3 without storing locally
+ */
+async function run(): Promise<void> {
+  await withLogger(actionsLogger, async () => {
+    if (core.getInput('manifest')) {
+      await runManifest();
+    } else {
+      await runSingle();
+    }
+  });
+}
+
 // Run the action
 run();
@@ -0,0 +1,56 @@
+/**
+ * Parse a simple JSONPath expression into property/index segments
+ * Supports dot notation, bracket notation and array indexes:
+ * $.data.next, $['next-page'], $.items[0].id, data.next (leading $ optional)
+ */
+function parsePath(expression: string): (string | number)[] {
+  const trimmed = expression.trim();
+  let rest = trimmed.startsWith('$') ? trimmed.substring(1) : `.${trimmed}`;
+  const segments: (string | number)[] = [];
+
+  while (rest.length > 0) {
+    let match: RegExpExecArray | null;
+
+    if ((match = /^\.([A-Za-z0-9_$-]+)/.exec(rest))) {
+      segments.push(match[1]);
+    } else if ((match = /^\[(\d+)\]/.exec(rest))) {
+      segments.push(parseInt(match[1], 10));
+    } else if ((match = /^\[\s*'([^']*)'\s*\]/.exec(rest)) || (match = /^\[\s*"([^"]*)"\s*\]/.exec(rest))) {
+      segments.push(match[1]);
+    } else {
+      throw new Error(`Unsupported JSONPath expression: ${expression}`);
+    }
+
+    rest = rest.substring(match[0].length);
+  }
+
+  return segments;
+}
+
+/**
+ * Select a single value from a JSON document
+ * Returns undefined if any segment along the path is missing
+ */
+export function queryJsonPath(document: unknown, expression: string): unknown {
+  let current: unknown = document;
+
+  for (const segment of parsePath(expression)) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string | number, unknown>)[segment];
+  }
+
+  return current;
+}
+
+/**
+ * Validate a JSONPath expression up front so input errors surface before any request
+ */
+export function validateJsonPath(expression: string, name: string): void {
+  try {
+    parsePath(expression);
+  } catch (error) {
+    throw new Error(`Invalid ${name}: ${error instanceof Error ? error.message : error}`);
+  }
+}
@@ -0,0 +1,80 @@
+import { hasKeyPlaceholders, keyTemplatePattern, requiresContentHash, resolveKeyTemplate } from './key-template';
+
+const now = new Date('2026-03-04T05:06:07Z');
+
+describe('resolveKeyTemplate', () => {
+  it('resolves date and timestamp placeholders in UTC', () => {
+    expect(resolveKeyTemplate('feeds/{date}/{date:HHmmss}-{timestamp}.json', { now }))
+      .toBe(`feeds/2026-03-04/050607-${Math.floor(now.getTime() / 1000)}.json`);
+  });
+
+  it('takes the filename from Content-Disposition before the URL, without path separators', () => {
+    const context = { now, url: 'https://example.com/files/report.csv?x=1', statusCode: 200 };
+    expect(resolveKeyTemplate('in/{filename}', context)).toBe('in/report.csv');
+    expect(resolveKeyTemplate('in/{filename}', { ...context, contentDisposition: 'attachment; filename="../../etc/passwd"' }))
+      .toBe('in/passwd');
+    expect(resolveKeyTemplate('in/{filename}', { ...context, contentDisposition: "attachment; filename*=UTF-8''r%C3%A9sum%C3%A9.pdf" }))
+      .toBe('in/résumé.pdf');
+  });
+
+  it('falls back to "download" for . and .. file names', () => {
+    const context = { now, url: 'https://example.com/files/report.csv', statusCode: 200 };
+    for (const contentDisposition of ['attachment; filename=".."', 'attachment; filename="."', "attachment; filename*=UTF-8''a%2F.."]) {
+      expect(resolveKeyTemplate('in/{filename}', { ...context, contentDisposition })).toBe('in/download');
+    }
+  });
+
+  it('derives {ext} from the Content-Type, then the filename', () => {
+    const context = { now, url: 'https://example.com/data', statusCode: 200 };
+    expect(resolveKeyTemplate('data.{ext}', { ...context, contentType: 'application/json; charset=utf-8' })).toBe('data.json');
+    expect(resolveKeyTemplate('data.{ext}', { ...context, url: 'https://example.com/archive.tar' })).toBe('data.tar');
+    expect(resolveKeyTemplate('data.{ext}', context)).toBe('data.bin');
+  });
+
+  describe('run context', () => {
+    const saved = { ...process.env };
+    afterEach(() => {
+      process.env = { ...saved };
+    });
+
+    it('reads the run ID and commit SHA from the environment', () => {
+      process.env.GITHUB_RUN_ID = '42';
+      process.env.GITHUB_SHA = 'abc123';
+      expect(resolveKeyTemplate('{run_id}/{sha}/out', { now })).toBe('42/abc123/out');
+    });
+
+    it('fails when they are not set', () => {
+      delete process.env.GITHUB_RUN_ID;
+      expect(() => resolveKeyTemplate('{run_id}', { now })).toThrow('Cannot resolve {run_id} in s3-key: GITHUB_RUN_ID is not set');
+    });
+  });
+
+  it('fails on values that are not available yet and on unknown placeholders', () => {
+    expect(() => resolveKeyTemplate('{status}', { now })).toThrow('the response is not available yet');
+    expect(() => resolveKeyTemplate('{sha256}', { now, statusCode: 200 })).toThrow('the content digest is not available yet');
+    expect(() => resolveKeyTemplate('{nope}', { now })).toThrow('Cannot resolve {nope} in s3-key: unknown placeholder');
+  });
+});
+
+describe('placeholder detection', () => {
+  it('finds placeholders and the ones that need the content digest', () => {
+    expect(hasKeyPlaceholders('plain/key.json')).toBe(false);
+    expect(hasKeyPlaceholders('{date}/key.json')).toBe(true);
+    expect(requiresContentHash('{date}/key.json')).toBe(false);
+    expect(requiresContentHash('by-hash/{SHA256}.json')).toBe(true);
+  });
+});
+
+describe('keyTemplatePattern', () => {
+  it('matches dates, timestamps and digests only in their own format', () => {
+    const daily = keyTemplatePattern('{date:YYYY-MM-DD}');
+    expect(daily.test('2026-01-31')).toBe(true);
+    expect(daily.test('notes')).toBe(false);
+    expect(daily.test('2026-01-31.bak')).toBe(false);
+
+    expect(keyTemplatePattern('run-{timestamp}.json').test('run-1767225600.json')).toBe(true);
+    expect(keyTemplatePattern('run-{timestamp}.json').test('run-1767225600xjson')).toBe(false);
+    expect(keyTemplatePattern('{md5}').test('d41d8cd98f00b204e9800998ecf8427e')).toBe(true);
+    expect(keyTemplatePattern('{filename}').test('anything.csv')).toBe(true);
+  });
+});
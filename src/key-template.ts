@@ -0,0 +1,264 @@
+import * as path from 'path';
+import { Checksums } from './checksum';
+
+/**
+ * Values available when resolving an S3 key template
+ * Fields are filled in as the transfer progresses; a placeholder whose value
+ * is not available yet causes an error
+ */
+export interface KeyTemplateContext {
+  now: Date;
+  url?: string;
+  statusCode?: number;
+  contentType?: string;
+  contentDisposition?: string;
+  checksums?: Checksums;
+}
+
+const PLACEHOLDER_PATTERN = /\{([a-z0-9_]+)(?::([^}]*))?\}/gi;
+
+// Placeholders that need the content digest, which is only known after the upload
+const CONTENT_PLACEHOLDERS = ['sha256', 'sha1', 'md5'];
+
+// Common Content-Type → extension mappings for {ext}
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  'application/json': 'json',
+  'application/x-ndjson': 'ndjson',
+  'application/ndjson': 'ndjson',
+  'application/xml': 'xml',
+  'text/xml': 'xml',
+  'text/csv': 'csv',
+  'text/plain': 'txt',
+  'text/html': 'html',
+  'text/markdown': 'md',
+  'application/yaml': 'yaml',
+  'application/x-yaml': 'yaml',
+  'application/pdf': 'pdf',
+  'application/zip': 'zip',
+  'application/gzip': 'gz',
+  'application/x-gzip': 'gz',
+  'application/x-tar': 'tar',
+  'application/zstd': 'zst',
+  'application/vnd.apache.parquet': 'parquet',
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'video/mp4': 'mp4',
+};
+
+/**
+ * Check whether a key contains any placeholders
+ */
+export function hasKeyPlaceholders(key: string): boolean {
+  return new RegExp(PLACEHOLDER_PATTERN.source, 'i').test(key);
+}
+
+/**
+ * Check whether a key contains placeholders that need the content digest
+ * Such keys are uploaded to a staging key first and copied once the digest is known
+ */
+export function requiresContentHash(key: string): boolean {
+  for (const match of key.matchAll(PLACEHOLDER_PATTERN)) {
+    if (CONTENT_PLACEHOLDERS.includes(match[1].toLowerCase())) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Format a date with YYYY, MM, DD, HH, mm and ss tokens (UTC)
+ */
+function formatDate(date: Date, format: string): string {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  const tokens: Record<string, string> = {
+    YYYY: date.getUTCFullYear().toString(),
+    MM: pad(date.getUTCMonth() + 1),
+    DD: pad(date.getUTCDate()),
+    HH: pad(date.getUTCHours()),
+    mm: pad(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds()),
+  };
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => tokens[token]);
+}
+
+/**
+ * Build a pattern matching the keys a template can resolve to
+ * Dates, timestamps, statuses and digests only match their own format; other values match any text without a slash
+ */
+export function keyTemplatePattern(template: string): RegExp {
+  const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+  const pattern = (name: string, argument?: string): string => {
+    switch (name) {
+      case 'date':
+        return escape(argument || 'YYYY-MM-DD').replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => (token === 'YYYY' ? '\\d{4}' : '\\d{2}'));
+      case 'timestamp':
+      case 'run_id':
+      case 'status':
+        return '\\d+';
+      case 'sha256':
+        return '[0-9a-f]{64}';
+      case 'sha1':
+        return '[0-9a-f]{40}';
+      case 'md5':
+        return '[0-9a-f]{32}';
+      default:
+        return '[^/]+';
+    }
+  };
+
+  let source = '';
+  let last = 0;
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    source += escape(template.substring(last, match.index)) + pattern(match[1].toLowerCase(), match[2]);
+    last = (match.index as number) + match[0].length;
+  }
+  return new RegExp(`^${source}${escape(template.substring(last))}$`);
+}
+
+/**
+ * Extract the filename from a Content-Disposition header
+ * Prefers the RFC 5987 filename* parameter over the plain filename parameter
+ */
+function filenameFromContentDisposition(header?: string): string | undefined {
+  if (!header) return undefined;
+
+  const extended = /filename\*\s*=\s*[^']*'[^']*'([^;]+)/i.exec(header);
+  if (extended) {
+    try {
+      return decodeURIComponent(extended[1].trim());
+    } catch {
+      // Fall through to the plain filename parameter
+    }
+  }
+
+  const plain = /filename\s*=\s*("([^"]*)"|[^;]+)/i.exec(header);
+  if (plain) {
+    return (plain[2] ?? plain[1]).trim();
+  }
+
+  return undefined;
+}
+
+/**
+ * Extract the last path segment of a URL
+ */
+function filenameFromUrl(url?: string): string | undefined {
+  if (!url) return undefined;
+
+  try {
+    const segment = new URL(url).pathname.split('/').filter(Boolean).pop();
+    return segment ? decodeURIComponent(segment) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolve the {filename} placeholder: Content-Disposition, then the URL path
+ * Path separators are stripped and . or .. fall back to "download", so the name cannot change the key prefix
+ */
+function resolveFilename(context: KeyTemplateContext): string {
+  const filename = filenameFromContentDisposition(context.contentDisposition) || filenameFromUrl(context.url);
+  const basename = filename ? path.posix.basename(filename.replace(/\\/g, '/')) : '';
+  return basename && basename !== '.' && basename !== '..' ? basename : 'download';
+}
+
+/**
+ * Look up the usual file extension (without dot) for a Content-Type
+ */
+export function extensionForContentType(contentType?: string): string | undefined {
+  const mimeType = contentType?.split(';')[0].trim().toLowerCase();
+  return mimeType ? CONTENT_TYPE_EXTENSIONS[mimeType] : undefined;
+}
+
+// Extension → Content-Type for stored files, preferring the first type listed above
+const EXTENSION_CONTENT_TYPES: Record<string, string> = {
+  js: 'text/javascript',
+  css: 'text/css',
+  htm: 'text/html',
+  jpeg: 'image/jpeg',
+  ico: 'image/x-icon',
+  wasm: 'application/wasm',
+  tgz: 'application/gzip',
+  ...Object.fromEntries(
+    Object.entries(CONTENT_TYPE_EXTENSIONS).reverse().map(([contentType, extension]) => [extension, contentType])
+  ),
+};
+
+/**
+ * Look up the Content-Type for a file name by its extension
+ */
+export function contentTypeForFilename(filename: string): string | undefined {
+  const extension = path.posix.extname(filename).replace(/^\./, '').toLowerCase();
+  return extension ? EXTENSION_CONTENT_TYPES[extension] : undefined;
+}
+
+/**
+ * Resolve the {ext} placeholder: response Content-Type, then the filename extension
+ */
+function resolveExtension(context: KeyTemplateContext): string {
+  const fromContentType = extensionForContentType(context.contentType);
+  if (fromContentType) {
+    return fromContentType;
+  }
+
+  const fromFilename = path.posix.extname(resolveFilename(context)).replace(/^\./, '');
+  return fromFilename || 'bin';
+}
+
+/**
+ * Resolve placeholders in an S3 key template
+ *
+ * Supported placeholders:
+ * - {date} / {date:FORMAT}: UTC date, FORMAT uses YYYY, MM, DD, HH, mm, ss (default YYYY-MM-DD)
+ * - {timestamp}: Unix timestamp in seconds
+ * - {run_id}, {sha}: GitHub run ID and commit SHA
+ * - {filename}: from Content-Disposition or the URL path
+ * - {ext}: from the response Content-Type
+ * - {status}: HTTP status code
+ * - {sha256}, {sha1}, {md5}: content digest (hex)
+ */
+export function resolveKeyTemplate(template: string, context: KeyTemplateContext): string {
+  const unavailable = (placeholder: string, reason: string): never => {
+    throw new Error(`Cannot resolve {${placeholder}} in s3-key: ${reason}`);
+  };
+
+  const resolved = template.replace(PLACEHOLDER_PATTERN, (_match, rawName: string, argument?: string) => {
+    const name = rawName.toLowerCase();
+
+    switch (name) {
+      case 'date':
+        return formatDate(context.now, argument || 'YYYY-MM-DD');
+      case 'timestamp':
+        return Math.floor(context.now.getTime() / 1000).toString();
+      case 'run_id':
+        return process.env.GITHUB_RUN_ID || unavailable(name, 'GITHUB_RUN_ID is not set');
+      case 'sha':
+        return process.env.GITHUB_SHA || unavailable(name, 'GITHUB_SHA is not set');
+      case 'filename':
+        if (context.statusCode === undefined) unavailable(name, 'the response is not available yet');
+        return resolveFilename(context);
+      case 'ext':
+        if (context.statusCode === undefined) unavailable(name, 'the response is not available yet');
+        return resolveExtension(context);
+      case 'status':
+        return context.statusCode?.toString() ?? unavailable(name, 'the response is not available yet');
+      case 'sha256':
+      case 'sha1':
+      case 'md5':
+        return context.checksums?.[name] ?? unavailable(name, 'the content digest is not available yet');
+      default:
+        return unavailable(name, 'unknown placeholder');
+    }
+  });
+
+  if (!resolved) {
+    throw new Error(`s3-key template "${template}" resolved to an empty key`);
+  }
+
+  return resolved;
+}
@@ -0,0 +1,279 @@
+/**
+ * Library entry point: URL → S3 transfers without the GitHub Actions runtime
+ * The Action (index.ts) and the CLI (cli.ts) are thin adapters over these functions.
+ */
+import { Logger, log, withLogger } from './logger';
+import { transfer, TransferOptions, TransferResult } from './transfer';
+import { ManifestEntry } from './manifest';
+import { mapWithConcurrency } from './concurrency';
+import { entryTransferOptions, SharedOptions } from './options';
+import { ValidationError } from './validate';
+import { redactHeaders, redactUrl } from './redact';
+import { objectUrl, StorageLocation } from './storage';
+
+export type { Logger } from './logger';
+export { createConsoleLogger, silentLogger } from './logger';
+export type { TransferOptions, TransferResult } from './transfer';
+export type { DestinationResult, Destination, FanOutOptions } from './fanout';
+export type { ManifestEntry } from './manifest';
+export type { RedirectHop } from './redirect';
+export type { StorageLocation, StorageType } from './storage';
+export type { InputReader, ManifestSettings, SharedOptions } from './options';
+export { readManifestSettings, readSharedOptions, readTransferOptions } from './options';
+export { parseManifest } from './manifest';
+export { ValidationError } from './validate';
+
+/**
+ * Outcome of a single manifest entry
+ */
+export interface EntryOutcome {
+  entry: ManifestEntry;
+  s3Url: string;
+  result?: TransferResult;
+  error?: string;
+  validationFailed?: boolean;
+}
+
+export interface ManifestCounts {
+  succeeded: number;
+  skipped: number;
+  failed: number;
+}
+
+/**
+ * Run a function with the logger, or with the current one when none is given
+ */
+function logTo<T>(logger: Logger | undefined, fn: () => Promise<T>): Promise<T> {
+  return logger ? withLogger(logger, fn) : fn();
+}
+
+/**
+ * Transfer one URL to S3 (or to several destinations)
+ */
+export function urlToS3(options: TransferOptions, logger?: Logger): Promise<TransferResult> {
+  return logTo(logger, () => transfer(options));
+}
+
+/**
+ * Transfer every manifest entry, a few at a time
+ * Failed entries are reported in their outcome instead of rejecting the whole batch.
+ */
+export function urlToS3Manifest(
+  entries: ManifestEntry[],
+  shared: SharedOptions,
+  settings: { defaultBucket?: string; destination?: StorageLocation; concurrency: number },
+  logger?: Logger
+): Promise<EntryOutcome[]> {
+  return logTo(logger, async () => {
+    log.info(`Manifest contains ${entries.length} entries, running up to ${settings.concurrency} at a time`);
+
+    return mapWithConcurrency(entries, settings.concurrency, async (entry, index): Promise<EntryOutcome> => {
+      const label = `[${index + 1}/${entries.length}]`;
+      // Entries with their own bucket go to S3; the others to destination-url or s3-bucket
+      const destination = entry.bucket ? undefined : settings.destination;
+      const location: StorageLocation = {
+        storage: destination?.storage ?? 's3',
+        bucket: entry.bucket || destination?.bucket || settings.defaultBucket || '',
+        key: `${destination?.key ?? ''}${entry.key}`,
+      };
+      const s3Url = objectUrl(location);
+
+      try {
+        if (!location.bucket) {
+          throw new Error('No bucket set on the entry and neither s3-bucket nor destination-url is set');
+        }
+
+        log.info(`${label} ${redactUrl(entry.url)} → ${s3Url}`);
+        const result = await transfer(entryTransferOptions(shared, entry, location));
+        log.info(`${label} ${describeSkip(result) ?? 'Done'}`);
+        return { entry, s3Url, result };
+      } catch (error) {
+        log.error(`${label} Transfer failed:`);
+        logErrorDetails(error);
+        return {
+          entry,
+          s3Url,
+          error: error instanceof Error ? error.message : String(error),
+          validationFailed: error instanceof ValidationError,
+        };
+      }
+    });
+  });
+}
+
+/**
+ * Describe why a transfer was skipped, or undefined if it was uploaded
+ */
+export function describeSkip(result: TransferResult): string | undefined {
+  if (result.notModified) return 'Skipped (source not modified)';
+  if (result.contentChanged === false) return 'Skipped (content identical)';
+  if (result.objectExisted) return 'Skipped (object already exists)';
+  return undefined;
+}
+
+/**
+ * Count the uploaded, skipped and failed manifest entries
+ */
+export function countOutcomes(outcomes: EntryOutcome[]): ManifestCounts {
+  const failed = outcomes.filter((outcome) => outcome.error !== undefined).length;
+  const skipped = outcomes.filter((outcome) => outcome.result?.objectExisted).length;
+  return { succeeded: outcomes.length - failed - skipped, skipped, failed };
+}
+
+/**
+ * Outputs of a single transfer, keyed by the Action's output names
+ */
+export function transferOutputs(result: TransferResult): Record<string, unknown> {
+  const outputs: Record<string, unknown> = {
+    // Status 0 when the HEAD check found the object and no HTTP request was made
+    'status-code': result.statusCode,
+    'attempts': result.attempts ?? 0,
+    'final-url': result.finalUrl ? redactUrl(result.finalUrl) : '',
+    'content-length': result.bytesTransferred, // Actual bytes, not the header
+    's3-url': result.s3Url,
+    's3-etag': result.objectExisted && !result.notModified ? '' : result.etag, // Unknown when the object existed
+    'version-id': result.versionId ?? '',
+    'provenance-url': result.provenanceUrl ?? '',
+    'object-existed': result.objectExisted,
+    'not-modified': result.notModified ?? false,
+    'content-changed': result.contentChanged ?? !result.objectExisted,
+    'sha256': result.checksums?.sha256 ?? '',
+    'sha1': result.checksums?.sha1 ?? '',
+    'md5': result.checksums?.md5 ?? '',
+    'raw-bytes': result.bytesTransferred,
+    'stored-bytes': result.storedBytes ?? result.bytesTransferred,
+  };
+  if (result.pageCount !== undefined) {
+    outputs['page-count'] = result.pageCount;
+    outputs['total-bytes'] = result.bytesTransferred;
+  }
+  if (result.extractedKeys !== undefined) {
+    outputs['extracted-keys'] = result.extractedKeys;
+    outputs['extracted-count'] = result.extractedKeys.length;
+    outputs['extracted-bytes'] = result.extractedBytes ?? 0;
+  }
+  if (result.waitAttempts !== undefined) {
+    outputs['wait-attempts'] = result.waitAttempts;
+    outputs['wait-ms'] = result.waitedMs ?? 0;
+  }
+  if (result.deletedKeys !== undefined) {
+    outputs['latest-url'] = result.latestUrl ?? '';
+    outputs['deleted-keys'] = result.deletedKeys;
+    outputs['deleted-count'] = result.deletedKeys.length;
+  }
+  if (result.destinations) {
+    outputs['destination-results'] = result.destinations.map((destination) => ({
+      'bucket': destination.bucket,
+      'key': destination.key,
+      's3-url': destination.s3Url,
+      'status': destination.status,
+      's3-etag': destination.etag,
+      'version-id': destination.versionId,
+      'provenance-url': destination.provenanceUrl,
+      'error': destination.error,
+    }));
+  }
+  return outputs;
+}
+
+/**
+ * Outputs of a manifest run, keyed by the Action's output names
+ */
+export function manifestOutputs(outcomes: EntryOutcome[]): Record<string, unknown> {
+  const counts = countOutcomes(outcomes);
+  return {
+    'succeeded-count': counts.succeeded,
+    'skipped-count': counts.skipped,
+    'failed-count': counts.failed,
+    'manifest-results': outcomes.map((outcome) => ({
+      'url': redactUrl(outcome.entry.url),
+      's3-url': outcome.s3Url,
+      'status': outcome.error
+        ? 'failed'
+        : outcome.result?.notModified ? 'not-modified'
+          : outcome.result?.contentChanged === false ? 'identical'
+            : outcome.result?.objectExisted ? 'skipped' : 'success',
+      'status-code': outcome.result?.statusCode ?? 0,
+      'attempts': outcome.result?.attempts ?? 0,
+      'final-url': outcome.result?.finalUrl ? redactUrl(outcome.result.finalUrl) : undefined,
+      'content-length': outcome.result?.bytesTransferred ?? 0,
+      's3-etag': outcome.result?.etag ?? '',
+      'version-id': outcome.result?.versionId,
+      'provenance-url': outcome.result?.provenanceUrl,
+      'sha256': outcome.result?.checksums?.sha256 ?? '',
+      'stored-bytes': outcome.result?.storedBytes ?? outcome.result?.bytesTransferred ?? 0,
+      'page-count': outcome.result?.pageCount,
+      'extracted-count': outcome.result?.extractedKeys?.length,
+      'latest-url': outcome.result?.latestUrl,
+      'deleted-count': outcome.result?.deletedKeys?.length,
+      'wait-attempts': outcome.result?.waitAttempts,
+      'error': outcome.error,
+    })),
+  };
+}
+
+/**
+ * Log detailed information about a failure for debugging
+ */
+export function logErrorDetails(error: unknown): void {
+  if (!(error instanceof Error)) {
+    log.error(`Unknown error type: ${typeof error}`);
+    log.error(`Error value: ${JSON.stringify(error, null, 2)}`);
+    return;
+  }
+
+  log.error(`Error: ${error.message}`);
+
+  // Log stack trace for debugging
+  if (error.stack) {
+    log.error('Stack trace:');
+    log.error(error.stack);
+  }
+
+  // Check for AWS SDK specific errors
+  if ('Code' in error || '$metadata' in error) {
+    log.error('AWS SDK Error Details:');
+    const awsError = error as any;
+
+    if (awsError.Code) {
+      log.error(`  Error Code: ${awsError.Code}`);
+    }
+    if (awsError.$metadata) {
+      log.error(`  HTTP Status: ${awsError.$metadata.httpStatusCode}`);
+      log.error(`  Request ID: ${awsError.$metadata.requestId}`);
+      if (awsError.$metadata.attempts) {
+        log.error(`  Attempts: ${awsError.$metadata.attempts}`);
+      }
+    }
+    if (awsError.message) {
+      log.error(`  Message: ${awsError.message}`);
+    }
+  }
+
+  // Check for axios/HTTP specific errors
+  if ('response' in error) {
+    const axiosError = error as any;
+    log.error('HTTP Error Details:');
+
+    if (axiosError.response) {
+      log.error(`  Status: ${axiosError.response.status} ${axiosError.response.statusText}`);
+      log.error(`  URL: ${redactUrl(axiosError.config?.url)}`);
+      log.error(`  Method: ${axiosError.config?.method?.toUpperCase()}`);
+
+      if (axiosError.response.headers) {
+        log.error('  Response Headers:');
+        log.error(JSON.stringify(redactHeaders({ ...axiosError.response.headers }), null, 2));
+      }
+
+      if (axiosError.response.data) {
+        log.error('  Response Body:');
+        // Limit response body to first 500 chars to avoid log spam
+        const responseData = String(axiosError.response.data);
+        log.error(responseData.substring(0, 500) + (responseData.length > 500 ? '...' : ''));
+      }
+    } else if (axiosError.request) {
+      log.error('  No response received from server');
+      log.error(`  URL: ${redactUrl(axiosError.config?.url)}`);
+    }
+  }
+}
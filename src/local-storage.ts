@@ -0,0 +1,308 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import { Transform, TransformCallback } from 'stream';
+import { pipeline } from 'stream/promises';
+import { pathToFileURL } from 'url';
+import { log } from './logger';
+import { ValidationError } from './validate';
+import type { ObjectHead, StorageBackend, StorageLocation } from './storage';
+import type { StoredObject, UploadOptions, UploadResult } from './upload';
+
+// Sidecar next to each file with what S3 would keep on the object
+const METADATA_SUFFIX = '.metadata.json';
+
+/**
+ * Contents of the metadata sidecar
+ */
+interface LocalObjectMetadata {
+  etag: string; // Quoted MD5 of the file, like a single-part S3 ETag
+  size: number;
+  contentType: string | null;
+  contentEncoding: string | null;
+  cacheControl: string | null;
+  metadata: Record<string, string>;
+  tags: Record<string, string>;
+  lastModified: string;
+}
+
+type WriteOptions = Omit<UploadOptions, 'stream'>;
+
+/**
+ * Resolve a file:// path into a root directory and key
+ * Relative paths are rooted at the workspace, absolute ones at the filesystem root.
+ */
+export function resolveLocalLocation(filePath: string): StorageLocation {
+  // file:///C:/dir on Windows
+  const normalized = /^\/[a-z]:/i.test(filePath) ? filePath.substring(1) : filePath;
+  const workspace = process.env.GITHUB_WORKSPACE || process.cwd();
+  const root = path.isAbsolute(normalized) ? path.parse(path.resolve(normalized)).root : path.resolve(workspace);
+  const key = path.relative(root, path.resolve(root, normalized)).split(path.sep).join('/');
+
+  if (key.startsWith('..')) {
+    throw new Error(`Invalid destination-url: ${filePath} is outside the workspace`);
+  }
+  return { storage: 'file', bucket: root, key: normalized.endsWith('/') && key ? `${key}/` : key };
+}
+
+/**
+ * Path of an object's file, refusing keys that would escape the root directory
+ */
+function objectPath(root: string, key: string): string {
+  const filePath = path.resolve(root, key);
+  const relative = path.relative(root, filePath);
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`Invalid key for ${root}: ${key}`);
+  }
+  return filePath;
+}
+
+/**
+ * Read the metadata sidecar of a file, if it has one
+ */
+function readSidecar(filePath: string): LocalObjectMetadata | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(`${filePath}${METADATA_SUFFIX}`, 'utf8')) as LocalObjectMetadata;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Warn about S3 settings that have no meaning on the local filesystem
+ */
+function warnIgnoredOptions(options: WriteOptions): void {
+  const ignored = [
+    options.acl && 'acl',
+    (options.encryption?.sse || options.encryption?.customerKey) && 'encryption',
+    options.objectLock && 'Object Lock',
+    options.nativeChecksum && 's3-native-checksum',
+  ].filter(Boolean);
+  if (ignored.length > 0) {
+    log.warning(`Ignored by the file destination: ${ignored.join(', ')}`);
+  }
+}
+
+/**
+ * Move a finished temporary file into place, honoring the conditional write options
+ * Returns false when If-None-Match found an existing file (the temporary file is discarded)
+ * If-Match is best-effort: the sidecar ETag is read and the file renamed in two steps, so a
+ * concurrent writer can slip in between. If-None-Match is atomic.
+ */
+function commitFile(tempPath: string, filePath: string, options: WriteOptions): boolean {
+  if (options.ifMatch) {
+    const current = fs.existsSync(filePath) ? readSidecar(filePath)?.etag : undefined;
+    if (current !== options.ifMatch) {
+      throw new Error(`Precondition failed: the object's ETag does not match if-match ${options.ifMatch}`);
+    }
+  }
+
+  if (options.ifNoneMatch === '*') {
+    // A hard link fails atomically when the name is taken, unlike rename
+    try {
+      fs.linkSync(tempPath, filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        return false;
+      }
+      throw error;
+    }
+    fs.rmSync(tempPath, { force: true });
+    return true;
+  }
+
+  fs.renameSync(tempPath, filePath);
+  return true;
+}
+
+/**
+ * Write the stream to a file under the root directory, with its metadata and tags in a sidecar
+ * The data goes to a temporary file first, so a failed download or validation leaves nothing behind.
+ */
+async function writeLocalObject(options: UploadOptions): Promise<UploadResult> {
+  const filePath = objectPath(options.bucket, options.key);
+  const url = pathToFileURL(filePath).href;
+  log.info(`Writing to ${url}`);
+  warnIgnoredOptions(options);
+
+  if (options.ifNoneMatch === '*' && fs.existsSync(filePath)) {
+    options.stream.destroy();
+    log.info(`File already exists at ${url}, not written (If-None-Match)`);
+    return { etag: '', s3Url: url, objectExisted: true };
+  }
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  const md5 = createHash('md5');
+  let size = 0;
+  const hasher = new Transform({
+    transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+      md5.update(chunk);
+      size += chunk.length;
+      callback(null, chunk);
+    },
+  });
+
+  try {
+    await pipeline(options.stream, hasher, fs.createWriteStream(tempPath));
+
+    const etag = `"${md5.digest('hex')}"`;
+    if (!commitFile(tempPath, filePath, options)) {
+      log.info(`File already exists at ${url}, not written (If-None-Match)`);
+      return { etag: '', s3Url: url, objectExisted: true };
+    }
+
+    const sidecar: LocalObjectMetadata = {
+      etag,
+      size,
+      contentType: options.contentType ?? null,
+      contentEncoding: options.contentEncoding ?? null,
+      cacheControl: options.cacheControl ?? null,
+      metadata: options.metadata ?? {},
+      tags: options.tags ?? {},
+      lastModified: new Date().toISOString(),
+    };
+    fs.writeFileSync(`${filePath}${METADATA_SUFFIX}`, `${JSON.stringify(sidecar, null, 2)}\n`);
+
+    log.info(`Successfully wrote ${size} bytes`);
+    log.info(`ETag: ${etag}`);
+    return { etag, s3Url: url, objectExisted: false };
+  } catch (error) {
+    // The body failed a validation gate; report the reason as is
+    if (error instanceof ValidationError) {
+      throw error;
+    }
+    throw new Error(`Failed to write ${url}: ${error instanceof Error ? error.message : error}`);
+  } finally {
+    fs.rmSync(tempPath, { force: true });
+  }
+}
+
+/**
+ * Move a staged file and its sidecar to the final key
+ */
+async function promoteLocalObject(options: WriteOptions, stagingKey: string): Promise<UploadResult> {
+  const stagingPath = objectPath(options.bucket, stagingKey);
+  const filePath = objectPath(options.bucket, options.key);
+  const url = pathToFileURL(filePath).href;
+  log.info(`Moving staged file ${pathToFileURL(stagingPath).href} to ${url}`);
+
+  try {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    if (!commitFile(stagingPath, filePath, options)) {
+      log.info(`File already exists at ${url}, not written (If-None-Match)`);
+      return { etag: '', s3Url: url, objectExisted: true };
+    }
+    fs.renameSync(`${stagingPath}${METADATA_SUFFIX}`, `${filePath}${METADATA_SUFFIX}`);
+
+    const etag = readSidecar(filePath)?.etag ?? '';
+    log.info(`ETag: ${etag}`);
+    return { etag, s3Url: url, objectExisted: false };
+  } finally {
+    fs.rmSync(stagingPath, { force: true });
+    fs.rmSync(`${stagingPath}${METADATA_SUFFIX}`, { force: true });
+    try {
+      fs.rmdirSync(path.dirname(stagingPath));
+    } catch {
+      // Other transfers may still be staging files here
+    }
+  }
+}
+
+/**
+ * Copy a file and its sidecar to another key
+ */
+async function copyLocalObject(options: WriteOptions, sourceKey: string): Promise<UploadResult> {
+  const sourcePath = objectPath(options.bucket, sourceKey);
+  const filePath = objectPath(options.bucket, options.key);
+  const url = pathToFileURL(filePath).href;
+  log.info(`Copying ${pathToFileURL(sourcePath).href} to ${url}`);
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  try {
+    fs.copyFileSync(sourcePath, tempPath);
+    if (!commitFile(tempPath, filePath, options)) {
+      log.info(`File already exists at ${url}, not written (If-None-Match)`);
+      return { etag: '', s3Url: url, objectExisted: true };
+    }
+  } catch (error) {
+    throw new Error(`Failed to copy ${pathToFileURL(sourcePath).href}: ${error instanceof Error ? error.message : error}`);
+  } finally {
+    fs.rmSync(tempPath, { force: true });
+  }
+
+  const sidecar = readSidecar(sourcePath);
+  if (sidecar) {
+    fs.writeFileSync(`${filePath}${METADATA_SUFFIX}`, `${JSON.stringify({ ...sidecar, lastModified: new Date().toISOString() }, null, 2)}\n`);
+  }
+  const etag = sidecar?.etag ?? '';
+  log.info(`ETag: ${etag}`);
+  return { etag, s3Url: url, objectExisted: false };
+}
+
+/**
+ * List the files under a key prefix, without their sidecars
+ */
+async function listLocalObjects(root: string, prefix: string): Promise<StoredObject[]> {
+  // The prefix may end in the middle of a file name, so list from its folder
+  const folder = prefix.substring(0, prefix.lastIndexOf('/') + 1);
+  const start = folder ? objectPath(root, folder) : path.resolve(root);
+  if (!fs.existsSync(start)) {
+    return [];
+  }
+
+  const objects: StoredObject[] = [];
+  const walk = (directory: string): void => {
+    for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        walk(entryPath);
+        continue;
+      }
+      const key = path.relative(root, entryPath).split(path.sep).join('/');
+      if (entry.isFile() && key.startsWith(prefix) && !key.endsWith(METADATA_SUFFIX) && !key.endsWith('.tmp')) {
+        objects.push({ key, lastModified: fs.statSync(entryPath).mtime });
+      }
+    }
+  };
+  walk(start);
+  return objects;
+}
+
+/**
+ * Delete files with their sidecars, then the folders they leave empty
+ */
+async function deleteLocalObjects(root: string, keys: string[]): Promise<void> {
+  for (const key of keys) {
+    const filePath = objectPath(root, key);
+    fs.rmSync(filePath, { force: true });
+    fs.rmSync(`${filePath}${METADATA_SUFFIX}`, { force: true });
+
+    let directory = path.dirname(filePath);
+    while (directory !== path.resolve(root) && fs.existsSync(directory) && fs.readdirSync(directory).length === 0) {
+      fs.rmdirSync(directory);
+      directory = path.dirname(directory);
+    }
+  }
+}
+
+/**
+ * Destination backend for a directory on the local filesystem (file:// URLs)
+ */
+export const localStorageBackend: StorageBackend = {
+  write: writeLocalObject,
+  promote: promoteLocalObject,
+  copy: copyLocalObject,
+  head: async (object): Promise<ObjectHead | undefined> => {
+    const filePath = objectPath(object.bucket, object.key);
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+    const sidecar = readSidecar(filePath);
+    return { etag: sidecar?.etag ?? '', metadata: sidecar?.metadata ?? {} };
+  },
+  list: (location, prefix) => listLocalObjects(location.bucket, prefix),
+  delete: (location, keys) => deleteLocalObjects(location.bucket, keys),
+  url: (bucket, key) => pathToFileURL(path.resolve(bucket, key)).href,
+};
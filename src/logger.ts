@@ -0,0 +1,71 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Receives the progress messages of a transfer
+ * The Action routes them to the runner log; the CLI and library default write to stderr.
+ */
+export interface Logger {
+  info(message: string): void;
+  warning(message: string): void;
+  error(message: string): void;
+  setSecret(value: string): void; // Mask the value in everything logged afterwards
+}
+
+const loggerStorage = new AsyncLocalStorage<Logger>();
+
+/**
+ * Logger that writes to a stream (stderr by default, so stdout stays free for results)
+ * and masks registered secrets itself, as the Actions runner would
+ */
+export function createConsoleLogger(stream: NodeJS.WritableStream = process.stderr): Logger {
+  const secrets = new Set<string>();
+  const write = (prefix: string, message: string): void => {
+    let masked = message;
+    for (const secret of secrets) {
+      masked = masked.split(secret).join('***');
+    }
+    stream.write(`${prefix}${masked}\n`);
+  };
+
+  return {
+    info: (message) => write('', message),
+    warning: (message) => write('Warning: ', message),
+    error: (message) => write('Error: ', message),
+    setSecret: (value) => {
+      secrets.add(value);
+    },
+  };
+}
+
+/**
+ * Logger that drops every message
+ */
+export const silentLogger: Logger = {
+  info: () => undefined,
+  warning: () => undefined,
+  error: () => undefined,
+  setSecret: () => undefined,
+};
+
+const defaultLogger = createConsoleLogger();
+
+/**
+ * Run a function with the given logger; everything it logs (including concurrent work) goes there
+ */
+export function withLogger<T>(logger: Logger, fn: () => Promise<T>): Promise<T> {
+  return loggerStorage.run(logger, fn);
+}
+
+function currentLogger(): Logger {
+  return loggerStorage.getStore() ?? defaultLogger;
+}
+
+/**
+ * Logger used by the transfer modules; forwards to the logger of the current withLogger call
+ */
+export const log: Logger = {
+  info: (message) => currentLogger().info(message),
+  warning: (message) => currentLogger().warning(message),
+  error: (message) => currentLogger().error(message),
+  setSecret: (value) => currentLogger().setSecret(value),
+};
@@ -0,0 +1,40 @@
+import { parseManifest } from './manifest';
+
+describe('parseManifest', () => {
+  it('parses a YAML list with aliases, JSON strings and mappings as key/value fields', () => {
+    const entries = parseManifest(`
+- url: https://example.com/a.json
+  s3-key: data/a.json
+  headers: '{"Accept": "application/json"}'
+  metadata:
+    source: example
+- url: https://example.com/b.csv
+  key: data/b.csv
+  s3-bucket: other-bucket
+`);
+
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({
+      url: 'https://example.com/a.json',
+      key: 'data/a.json',
+      headers: { Accept: 'application/json' },
+      metadata: { source: 'example' },
+    });
+    expect(entries[1]).toMatchObject({ key: 'data/b.csv', bucket: 'other-bucket' });
+  });
+
+  it('accepts a JSON object with an entries list', () => {
+    const entries = parseManifest('{"entries": [{"url": "https://example.com/a", "key": "a"}]}');
+    expect(entries).toEqual([expect.objectContaining({ url: 'https://example.com/a', key: 'a' })]);
+  });
+
+  it('reports the entry that is missing a field', () => {
+    expect(() => parseManifest('[{"url": "https://example.com/a", "key": "a"}, {"url": "https://example.com/b"}]'))
+      .toThrow('Manifest entry 2 is missing key');
+  });
+
+  it('rejects an empty manifest and a missing file', () => {
+    expect(() => parseManifest('[]')).toThrow('Manifest does not contain any entries');
+    expect(() => parseManifest('does-not-exist.yml')).toThrow('Manifest file not found in workspace: does-not-exist.yml');
+  });
+});
@@ -0,0 +1,163 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import YAML from 'yaml';
+import { parseKeyValuePairs } from './upload';
+import { ExpectedChecksum, parseExpectedChecksum } from './checksum';
+
+/**
+ * A single URL → S3 transfer listed in a manifest
+ * Optional fields fall back to the step-level inputs
+ */
+export interface ManifestEntry {
+  url: string;
+  key: string;
+  bucket?: string;
+  method?: string;
+  headers?: Record<string, string>;
+  data?: string;
+  contentType?: string;
+  cacheControl?: string;
+  storageClass?: string;
+  metadata?: Record<string, string>;
+  tags?: Record<string, string>;
+  expectedChecksum?: ExpectedChecksum;
+}
+
+/**
+ * Read a string field from a raw manifest entry, accepting any of the given aliases
+ */
+function readString(raw: Record<string, unknown>, index: number, ...names: string[]): string | undefined {
+  for (const name of names) {
+    const value = raw[name];
+    if (value === undefined || value === null || value === '') continue;
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      throw new Error(`Manifest entry ${index}: ${name} must be a string`);
+    }
+    return String(value);
+  }
+  return undefined;
+}
+
+/**
+ * Read a key/value field from a raw manifest entry
+ * Accepts a mapping or the same string formats as the step inputs
+ */
+function readKeyValues(raw: Record<string, unknown>, index: number, name: string): Record<string, string> | undefined {
+  const value = raw[name];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (typeof value === 'string') {
+    return parseKeyValuePairs(value, `manifest entry ${index} ${name}`);
+  }
+
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`Manifest entry ${index}: ${name} must be a mapping of key/value pairs`);
+  }
+
+  const result: Record<string, string> = {};
+  for (const [key, entryValue] of Object.entries(value as Record<string, unknown>)) {
+    result[key] = String(entryValue);
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/**
+ * Convert a raw parsed manifest entry into a typed entry
+ */
+function toManifestEntry(raw: unknown, index: number): ManifestEntry {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error(`Manifest entry ${index} must be an object`);
+  }
+
+  const entry = raw as Record<string, unknown>;
+  const url = readString(entry, index, 'url');
+  const key = readString(entry, index, 'key', 's3-key');
+
+  if (!url) {
+    throw new Error(`Manifest entry ${index} is missing url`);
+  }
+  if (!key) {
+    throw new Error(`Manifest entry ${index} is missing key`);
+  }
+
+  let expectedChecksum: ExpectedChecksum | undefined;
+  try {
+    expectedChecksum = parseExpectedChecksum(
+      readString(entry, index, 'expected-sha256', 'sha256'),
+      readString(entry, index, 'expected-checksum', 'checksum')
+    );
+  } catch (error) {
+    throw new Error(`Manifest entry ${index}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  return {
+    url,
+    key,
+    bucket: readString(entry, index, 'bucket', 's3-bucket'),
+    method: readString(entry, index, 'method'),
+    headers: readKeyValues(entry, index, 'headers'),
+    data: readString(entry, index, 'post-data', 'data'),
+    contentType: readString(entry, index, 'content-type'),
+    cacheControl: readString(entry, index, 'cache-control'),
+    storageClass: readString(entry, index, 'storage-class'),
+    metadata: readKeyValues(entry, index, 'metadata'),
+    tags: readKeyValues(entry, index, 'tags'),
+    expectedChecksum,
+  };
+}
+
+/**
+ * Resolve the manifest input (or another list input) to its text content
+ * A single-line value naming an existing file in the workspace is read from disk,
+ * anything else is treated as inline JSON/YAML
+ */
+export function readManifestSource(input: string): string {
+  const trimmed = input.trim();
+
+  if (!trimmed.includes('\n') && !/^[[{]/.test(trimmed)) {
+    const workspace = process.env.GITHUB_WORKSPACE || process.cwd();
+    const filePath = path.resolve(workspace, trimmed);
+    if (fs.existsSync(filePath) && fs.statSync(filePath).isFile()) {
+      return fs.readFileSync(filePath, 'utf8');
+    }
+  }
+
+  return trimmed;
+}
+
+/**
+ * Parse the manifest input into a list of entries
+ * Supports inline JSON/YAML or a path to a JSON/YAML file in the workspace.
+ * The document is either a list of entries or an object with an `entries` list.
+ */
+export function parseManifest(input: string): ManifestEntry[] {
+  const source = readManifestSource(input);
+
+  let document: unknown;
+  try {
+    // YAML is a superset of JSON, so one parser handles both formats
+    document = YAML.parse(source);
+  } catch (error) {
+    throw new Error(`Failed to parse manifest: ${error instanceof Error ? error.message : error}`);
+  }
+
+  // A bare scalar is most likely a file path that does not exist
+  if (typeof document === 'string') {
+    throw new Error(`Manifest file not found in workspace: ${document}`);
+  }
+
+  const entries = Array.isArray(document)
+    ? document
+    : (document as { entries?: unknown } | null)?.entries;
+
+  if (!Array.isArray(entries)) {
+    throw new Error('Manifest must be a list of entries or an object with an "entries" list');
+  }
+  if (entries.length === 0) {
+    throw new Error('Manifest does not contain any entries');
+  }
+
+  return entries.map((raw, index) => toManifestEntry(raw, index + 1));
+}
@@ -0,0 +1,29 @@
+import { checkPrivateHost, isPrivateAddress, PRIVATE_NETWORK_ERROR_CODE } from './network';
+
+describe('isPrivateAddress', () => {
+  it('flags loopback, private, link-local, CGNAT and reserved ranges', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fd00::1', 'fe80::1']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  });
+
+  it('checks IPv4-mapped IPv6 addresses against the IPv4 ranges', () => {
+    expect(isPrivateAddress('::ffff:10.0.0.1')).toBe(true);
+    expect(isPrivateAddress('::ffff:8.8.8.8')).toBe(false);
+  });
+
+  it('accepts public addresses and ignores host names', () => {
+    for (const address of ['8.8.8.8', '172.32.0.1', '2606:4700::1111', 'example.com']) {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  });
+});
+
+describe('checkPrivateHost', () => {
+  it('refuses private address literals in URLs, including bracketed IPv6', () => {
+    expect(() => checkPrivateHost('http://169.254.169.254/latest/meta-data/'))
+      .toThrow('Refusing to connect to 169.254.169.254: private network address (block-private-networks)');
+    expect(() => checkPrivateHost('http://[::1]:8080/')).toThrow(expect.objectContaining({ code: PRIVATE_NETWORK_ERROR_CODE }));
+    expect(() => checkPrivateHost('https://example.com/')).not.toThrow();
+  });
+});
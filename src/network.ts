@@ -0,0 +1,334 @@
+import * as dns from 'dns';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import * as path from 'path';
+import * as tls from 'tls';
+import { HttpProxyAgent } from 'http-proxy-agent';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import { log } from './logger';
+import { redactUrl } from './redact';
+
+export interface NetworkOptions {
+  proxy?: string; // Proxy URL, or 'none'; HTTPS_PROXY/HTTP_PROXY are used when unset
+  caCert?: string; // Extra trusted CA (PEM), inline or file path
+  clientCert?: string; // Client certificate: PEM or PFX, inline or file path
+  clientKey?: string; // Private key for a PEM client certificate, inline or file path
+  clientKeyPassphrase?: string; // Passphrase of the private key or PFX
+  insecureSkipVerify?: boolean; // Do not verify the server certificate
+  blockPrivateNetworks?: boolean; // Refuse hosts that resolve to loopback, private or link-local addresses
+}
+
+/**
+ * Agents for one request; proxy is always false so axios does not apply the environment proxy again
+ */
+export interface RequestAgents {
+  httpAgent?: http.Agent;
+  httpsAgent?: https.Agent;
+  proxy: false;
+}
+
+type TlsOptions = tls.SecureContextOptions & { rejectUnauthorized?: boolean };
+
+// TLS options and agents are shared across requests so credentials are read and connections reused once
+const tlsOptionsCache = new Map<string, TlsOptions>();
+const agentsCache = new Map<string, RequestAgents>();
+
+// Error code of connections refused by block-private-networks
+export const PRIVATE_NETWORK_ERROR_CODE = 'ERR_PRIVATE_NETWORK';
+
+// Address ranges refused by block-private-networks: this network, private (RFC 1918, RFC 4193),
+// shared (CGNAT), loopback, link-local (cloud metadata endpoints), benchmarking, multicast and reserved
+const PRIVATE_NETWORKS = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(address, prefix, 'ipv4');
+}
+// BlockList also matches IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) against the IPv4 ranges
+for (const [address, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_NETWORKS.addSubnet(address, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is in a loopback, private, link-local or otherwise non-public range
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  return family !== 0 && PRIVATE_NETWORKS.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Error for a host that resolved to a private network address
+ */
+function privateNetworkError(hostname: string, address: string): Error {
+  const detail = hostname === address ? '' : ` (${address})`;
+  const error: NodeJS.ErrnoException = new Error(`Refusing to connect to ${hostname}${detail}: private network address (block-private-networks)`);
+  error.code = PRIVATE_NETWORK_ERROR_CODE;
+  return error;
+}
+
+/**
+ * Refuse a URL whose host is a private network address literal
+ * Host names are checked when they are resolved (see publicLookup).
+ */
+export function checkPrivateHost(url: string): void {
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  if (isPrivateAddress(hostname)) {
+    throw privateNetworkError(hostname, hostname);
+  }
+}
+
+/**
+ * Resolve a host name and refuse it if any of its addresses is private
+ * Used behind a proxy, and for S3 endpoints, where the connection is not made by the checked agents.
+ */
+export async function assertPublicHost(hostname: string): Promise<void> {
+  const addresses = net.isIP(hostname) ? [{ address: hostname }] : await dns.promises.lookup(hostname, { all: true });
+  const blocked = addresses.find((entry) => isPrivateAddress(entry.address));
+  if (blocked) {
+    throw privateNetworkError(hostname, blocked.address);
+  }
+}
+
+/**
+ * dns.lookup that refuses private network addresses
+ * It runs for every connection, so each redirect hop is checked against the address actually used.
+ */
+function publicLookup(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void
+): void {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+    const blocked = addresses.find((entry) => isPrivateAddress(entry.address));
+    if (blocked) {
+      callback(privateNetworkError(hostname, blocked.address), '');
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+/**
+ * Proxy agent that applies the TLS options to the tunnelled connection to the source
+ * (HttpsProxyAgent only uses its constructor options for the connection to the proxy)
+ */
+class TlsProxyAgent extends HttpsProxyAgent<string> {
+  constructor(proxy: string, private readonly tlsOptions: TlsOptions, private readonly blockPrivateNetworks = false) {
+    super(proxy);
+  }
+
+  async connect(req: http.ClientRequest, opts: Parameters<HttpsProxyAgent<string>['connect']>[1]): Promise<net.Socket> {
+    if (this.blockPrivateNetworks && opts.host) {
+      await assertPublicHost(opts.host);
+    }
+    return super.connect(req, { ...opts, ...this.tlsOptions });
+  }
+}
+
+/**
+ * Plain HTTP proxy agent that checks the source host first (block-private-networks)
+ */
+class PublicHttpProxyAgent extends HttpProxyAgent<string> {
+  async connect(req: Parameters<HttpProxyAgent<string>['connect']>[0], opts: Parameters<HttpProxyAgent<string>['connect']>[1]): Promise<net.Socket> {
+    if (opts.host) {
+      await assertPublicHost(opts.host);
+    }
+    return super.connect(req, opts);
+  }
+}
+
+/**
+ * Check whether a buffer holds PEM text (as opposed to binary PFX/DER)
+ */
+function isPem(data: Buffer): boolean {
+  return data.toString('latin1').includes('-----BEGIN ');
+}
+
+/**
+ * Read a certificate or key given inline (PEM or base64 PFX) or as a path in the workspace
+ */
+export function readCredential(value: string, name: string): Buffer {
+  if (value.includes('-----BEGIN ')) {
+    return Buffer.from(value);
+  }
+
+  const workspace = process.env.GITHUB_WORKSPACE || process.cwd();
+  const filePath = path.resolve(workspace, value);
+  if (fs.existsSync(filePath)) {
+    try {
+      return fs.readFileSync(filePath);
+    } catch (error) {
+      throw new Error(`Failed to read ${name} ${value}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (/^[A-Za-z0-9+/=\s]+$/.test(value) && value.length > 64) {
+    return Buffer.from(value, 'base64');
+  }
+
+  throw new Error(`Invalid ${name}: not PEM content, base64 PFX or a file in the workspace`);
+}
+
+/**
+ * Build the TLS options for the source connection (CA bundle, client certificate, verification)
+ */
+export function getTlsOptions(options: NetworkOptions): TlsOptions {
+  const cacheKey = JSON.stringify([options.caCert, options.clientCert, options.clientKey, options.clientKeyPassphrase, options.insecureSkipVerify]);
+  const cached = tlsOptionsCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const tlsOptions: TlsOptions = {};
+
+  if (options.caCert) {
+    const ca = readCredential(options.caCert, 'ca-cert');
+    if (!isPem(ca)) {
+      throw new Error('Invalid ca-cert: must be a PEM certificate bundle');
+    }
+    // Trust the extra CA in addition to the public roots
+    tlsOptions.ca = [...tls.rootCertificates, ca.toString('utf8')];
+    log.info('TLS: custom CA certificate added');
+  }
+
+  if (options.clientKey && !options.clientCert) {
+    throw new Error('client-key requires client-cert');
+  }
+  if (options.clientCert) {
+    const cert = readCredential(options.clientCert, 'client-cert');
+    if (isPem(cert)) {
+      const key = options.clientKey ? readCredential(options.clientKey, 'client-key') : cert;
+      if (!key.toString('latin1').includes('PRIVATE KEY-----')) {
+        throw new Error('client-key is required when client-cert is a PEM certificate without its private key');
+      }
+      tlsOptions.cert = cert;
+      tlsOptions.key = key;
+      log.info('TLS: client certificate (PEM)');
+    } else {
+      if (options.clientKey) {
+        throw new Error('client-key cannot be combined with a PFX client-cert, the PFX contains the key');
+      }
+      tlsOptions.pfx = cert;
+      log.info('TLS: client certificate (PFX)');
+    }
+    if (options.clientKeyPassphrase) {
+      tlsOptions.passphrase = options.clientKeyPassphrase;
+    }
+  }
+
+  if (options.insecureSkipVerify) {
+    tlsOptions.rejectUnauthorized = false;
+    log.warning('insecure-skip-verify is enabled: the server certificate is not verified');
+  }
+
+  tlsOptionsCache.set(cacheKey, tlsOptions);
+  return tlsOptions;
+}
+
+/**
+ * Check whether NO_PROXY excludes a URL from proxying
+ * Entries are host names (matching subdomains too), optionally with a port, or * for everything
+ */
+function bypassesProxy(url: URL): boolean {
+  const noProxy = process.env.NO_PROXY ?? process.env.no_proxy;
+  if (!noProxy) return false;
+
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+
+  return noProxy.split(/[,\s]+/).filter(Boolean).some((entry) => {
+    if (entry === '*') return true;
+
+    const match = /^(.+?)(?::(\d+))?$/.exec(entry.toLowerCase()) as RegExpExecArray;
+    if (match[2] && match[2] !== port) return false;
+
+    const suffix = match[1].replace(/^\*?\./, '');
+    return host === suffix || host.endsWith(`.${suffix}`);
+  });
+}
+
+/**
+ * Resolve the proxy for a URL: the proxy input, else HTTPS_PROXY/HTTP_PROXY/ALL_PROXY,
+ * unless it is 'none' or NO_PROXY matches the host
+ */
+export function resolveProxy(targetUrl: string, proxy?: string): string | undefined {
+  if (proxy === 'none') return undefined;
+
+  const url = new URL(targetUrl);
+  const env = process.env;
+  const configured = proxy || (url.protocol === 'https:'
+    ? env.HTTPS_PROXY || env.https_proxy
+    : env.HTTP_PROXY || env.http_proxy) || env.ALL_PROXY || env.all_proxy;
+
+  if (!configured || bypassesProxy(url)) {
+    return undefined;
+  }
+  return configured;
+}
+
+/**
+ * Validate the network options up front: the proxy URL and the TLS material
+ */
+export function validateNetworkOptions(options: NetworkOptions): NetworkOptions {
+  if (options.proxy && options.proxy !== 'none') {
+    let proxyUrl: URL;
+    try {
+      proxyUrl = new URL(options.proxy);
+    } catch {
+      throw new Error(`Invalid proxy: ${redactUrl(options.proxy)}. Must be a full URL (e.g., http://proxy.example.com:3128) or none`);
+    }
+    if (proxyUrl.protocol !== 'http:' && proxyUrl.protocol !== 'https:') {
+      throw new Error(`Invalid proxy: ${redactUrl(options.proxy)}. Only http:// and https:// proxies are supported`);
+    }
+  }
+  getTlsOptions(options);
+  return options;
+}
+
+/**
+ * Get the HTTP agents for a request to the given URL
+ */
+export function getRequestAgents(targetUrl: string, options: NetworkOptions = {}): RequestAgents {
+  const proxy = resolveProxy(targetUrl, options.proxy);
+  const cacheKey = JSON.stringify([proxy, options]);
+  const cached = agentsCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const tlsOptions = getTlsOptions(options);
+  let agents: RequestAgents;
+  if (proxy) {
+    log.info(`Proxy: ${redactUrl(proxy)}`);
+    agents = {
+      httpAgent: options.blockPrivateNetworks ? new PublicHttpProxyAgent(proxy) : new HttpProxyAgent(proxy),
+      httpsAgent: new TlsProxyAgent(proxy, tlsOptions, options.blockPrivateNetworks),
+      proxy: false,
+    };
+  } else if (options.blockPrivateNetworks) {
+    const lookup = publicLookup as net.LookupFunction;
+    agents = {
+      httpAgent: new http.Agent({ lookup }),
+      httpsAgent: new https.Agent({ ...tlsOptions, lookup }),
+      proxy: false,
+    };
+  } else {
+    agents = {
+      httpsAgent: Object.keys(tlsOptions).length > 0 ? new https.Agent(tlsOptions) : undefined,
+      proxy: false,
+    };
+  }
+
+  agentsCache.set(cacheKey, agents);
+  return agents;
+}
@@ -0,0 +1,532 @@
+import { DownloadOptions, parseHeaders } from './download';
+import { ObjectLockMode, parseKeyValuePairs, parseMetadata, parseRetainUntil, parseTags } from './upload';
+import { TransferOptions } from './transfer';
+import { parseManifest, ManifestEntry } from './manifest';
+import { parseExpectedChecksum } from './checksum';
+import { validateAuthType } from './auth';
+import { parseSize, validateValidateMode, validateValidationOptions, ValidationOptions } from './validate';
+import { TransformMode, validateTransform } from './codec';
+import {
+  DEFAULT_EXTRACT_MAX_BYTES,
+  DEFAULT_EXTRACT_MAX_ENTRIES,
+  ExtractFormat,
+  ExtractOptions,
+  validateExtractOptions,
+} from './extract';
+import {
+  DEFAULT_RETRY_ERROR_CODES,
+  DEFAULT_RETRY_STATUS_CODES,
+  validateRetryJitter,
+  validateRetryPolicy,
+  validateS3RetryOptions,
+} from './retry';
+import { resolveProxy, validateNetworkOptions } from './network';
+import { S3ClientOptions } from './s3-client';
+import { FanOutOptions, parseDestinations, validateFanOutPolicy } from './fanout';
+import { DEFAULT_PROVENANCE_HEADERS, ProvenanceOptions } from './provenance';
+import { DEFAULT_SNAPSHOT_KEY, SnapshotLatest, SnapshotOptions, validateSnapshotOptions } from './snapshot';
+import { parseDestinationUrl, StorageLocation } from './storage';
+import { configureRedaction, parseNameList, registerSecret } from './redact';
+import { PaginationMode, PaginationOptions, PaginationOutput, validatePaginationOptions } from './paginate';
+import { validateWaitOptions, WaitCondition, WaitMethod, WaitOptions } from './wait';
+import { validateRedirectPolicy } from './redirect';
+
+/**
+ * Reads one input by its action.yml name, returning '' when it is not set
+ * The Action reads the step's inputs; the CLI reads flags and environment variables.
+ */
+export type InputReader = (name: string, options?: { required?: boolean }) => string;
+
+/**
+ * Inputs shared by every transfer in the step (everything except URL, bucket and key)
+ */
+export interface SharedOptions {
+  download: Omit<DownloadOptions, 'url'>;
+  upload: Omit<TransferOptions['upload'], 'bucket' | 'key'>;
+  ifNotExists: boolean;
+  ifChanged: boolean;
+  skipIfIdentical: boolean;
+  pagination?: PaginationOptions;
+  transform: TransformMode;
+  extract?: ExtractOptions;
+  provenance?: ProvenanceOptions;
+  snapshot?: SnapshotOptions;
+  waitFor?: WaitOptions;
+}
+
+/**
+ * Read the inputs shared by single and manifest mode
+ */
+export function readSharedOptions(input: InputReader): SharedOptions {
+  configureRedaction({
+    headers: parseNameList(input('redact-headers')),
+    queryParams: parseNameList(input('redact-query-params')),
+  });
+
+  const method = input('method') || 'GET';
+  const headersInput = input('headers');
+  const postData = input('post-data');
+  const timeout = parseInt(input('timeout') || '900000', 10);
+  const enableRetry = input('enable-retry') === 'true';
+  const retryStatusCodes = input('retry-status-codes');
+  const retryErrorCodes = input('retry-error-codes');
+  const retry = enableRetry
+    ? validateRetryPolicy({
+      maxAttempts: parseInt(input('retry-max-attempts') || '4', 10),
+      baseDelay: parseInt(input('retry-base-delay') || '1000', 10),
+      maxDelay: parseInt(input('retry-max-delay') || '30000', 10),
+      jitter: validateRetryJitter(input('retry-jitter'), 'retry-jitter'),
+      statusCodes: retryStatusCodes
+        ? parseNameList(retryStatusCodes).map((status) => parseInt(status, 10))
+        : DEFAULT_RETRY_STATUS_CODES,
+      errorCodes: retryErrorCodes
+        ? parseNameList(retryErrorCodes).map((code) => code.toUpperCase())
+        : DEFAULT_RETRY_ERROR_CODES,
+      maxRetryAfter: parseInt(input('retry-after-max') || '60000', 10),
+    })
+    : undefined;
+  const proxy = input('proxy');
+  const clientKey = input('client-key');
+  const clientKeyPassphrase = input('client-key-passphrase');
+  for (const secret of [clientKey, clientKeyPassphrase]) {
+    registerSecret(secret);
+  }
+  if (proxy && proxy !== 'none') {
+    try {
+      registerSecret(decodeURIComponent(new URL(proxy).password));
+    } catch {
+      // Malformed proxy URLs are reported by validateNetworkOptions
+    }
+  }
+  const network = validateNetworkOptions({
+    proxy: proxy || undefined,
+    caCert: input('ca-cert') || undefined,
+    clientCert: input('client-cert') || undefined,
+    clientKey: clientKey || undefined,
+    clientKeyPassphrase: clientKeyPassphrase || undefined,
+    insecureSkipVerify: input('insecure-skip-verify') === 'true',
+    blockPrivateNetworks: input('block-private-networks') === 'true',
+  });
+  const redirects = validateRedirectPolicy({
+    maxRedirects: parseInt(input('max-redirects') || '5', 10),
+    allowCrossHost: input('allow-cross-host-redirects') !== 'false',
+    httpsOnly: input('https-only') === 'true',
+  });
+  const rangedDownload = input('ranged-download') === 'true';
+  const rangeSize = parseInt(input('range-size') || '16777216', 10);
+  const rangeConcurrency = parseInt(input('range-concurrency') || '4', 10);
+
+  const authType = validateAuthType(input('auth-type'));
+  const authUsername = input('auth-username');
+  const authPassword = input('auth-password');
+  const authToken = input('auth-token');
+  const oauth2TokenUrl = input('oauth2-token-url');
+  const oauth2ClientId = input('oauth2-client-id');
+  const oauth2ClientSecret = input('oauth2-client-secret');
+  const oauth2Scope = input('oauth2-scope');
+  const oauth2Audience = input('oauth2-audience');
+  const sigv4Service = input('aws-sigv4-service');
+  const sigv4Region = input('aws-sigv4-region');
+  for (const secret of [authPassword, authToken, oauth2ClientSecret]) {
+    registerSecret(secret);
+  }
+
+  const bucketOwner = input('bucket-owner');
+  const acl = input('acl');
+  const storageClass = input('storage-class') || 'STANDARD';
+  const contentTypeOverride = input('content-type');
+  const cacheControl = input('cache-control');
+  const metadataInput = input('metadata');
+  const tagsInput = input('tags');
+  const ifNotExists = input('if-not-exists') === 'true';
+  const ifChanged = input('if-changed') === 'true';
+  const skipIfIdentical = input('skip-if-identical') === 'true';
+  const objectLockMode = input('object-lock-mode');
+  const objectLockRetainUntil = parseRetainUntil(input('object-lock-retain-until'));
+  const legalHold = input('legal-hold') === 'true';
+
+  if (ifNotExists && ifChanged) {
+    throw new Error('if-not-exists and if-changed cannot both be enabled');
+  }
+  if (ifNotExists && skipIfIdentical) {
+    throw new Error('if-not-exists and skip-if-identical cannot both be enabled');
+  }
+  if (rangedDownload && (isNaN(rangeSize) || rangeSize < 1)) {
+    throw new Error(`Invalid range-size: ${input('range-size')}. Must be a positive number of bytes`);
+  }
+  if (rangedDownload && (isNaN(rangeConcurrency) || rangeConcurrency < 1)) {
+    throw new Error(`Invalid range-concurrency: ${input('range-concurrency')}. Must be a positive integer`);
+  }
+
+  const paginationMode = input('pagination') || 'none';
+  const paginationStart = input('pagination-start');
+  const paginationPageSize = input('pagination-page-size');
+  const pagination = paginationMode === 'none'
+    ? undefined
+    : validatePaginationOptions({
+      mode: paginationMode as PaginationMode,
+      output: (input('pagination-output') || 'objects') as PaginationOutput,
+      maxPages: parseInt(input('max-pages') || '100', 10),
+      nextPath: input('pagination-next-path') || undefined,
+      param: input('pagination-param') || undefined,
+      start: paginationStart ? parseInt(paginationStart, 10) : undefined,
+      pageSize: paginationPageSize ? parseInt(paginationPageSize, 10) : undefined,
+      itemsPath: input('pagination-items-path') || undefined,
+    });
+
+  const waitCondition = input('wait-for') || 'none';
+  const waitSuccessStatus = input('wait-success-status');
+  const waitFor = waitCondition === 'none'
+    ? undefined
+    : validateWaitOptions({
+      condition: waitCondition as WaitCondition,
+      url: input('wait-url') || undefined,
+      // The JSON condition needs the body, a status check does not
+      method: (input('wait-method') || (waitCondition === 'json-path' ? 'GET' : 'HEAD')).toUpperCase() as WaitMethod,
+      successStatuses: waitSuccessStatus
+        ? parseNameList(waitSuccessStatus).map((status) => parseInt(status, 10))
+        : [200],
+      jsonPath: input('wait-json-path') || undefined,
+      jsonValue: input('wait-json-value') || undefined,
+      interval: parseInt(input('wait-interval') || '10000', 10),
+      timeout: parseInt(input('wait-timeout') || '600000', 10),
+    });
+
+  const validation: ValidationOptions = {
+    maxSize: parseSize(input('max-size'), 'max-size'),
+    minSize: parseSize(input('min-size'), 'min-size'),
+    allowedContentTypes: parseNameList(input('allowed-content-types')),
+    mode: validateValidateMode(input('validate')),
+    csvColumns: parseNameList(input('validate-csv-columns')),
+    schemaFile: input('validate-schema') || undefined,
+  };
+  validateValidationOptions(validation);
+
+  const transform = validateTransform(input('transform'));
+  const keepEncoding = input('keep-encoding') === 'true';
+  if (keepEncoding && transform !== 'none') {
+    throw new Error('keep-encoding cannot be combined with transform');
+  }
+  if (keepEncoding && validation.mode !== 'none') {
+    throw new Error('keep-encoding cannot be combined with validate, the body would be checked while still encoded');
+  }
+
+  const extractFormat = input('extract') || 'none';
+  const extractMaxEntries = input('extract-max-entries');
+  const extract = extractFormat === 'none'
+    ? undefined
+    : validateExtractOptions({
+      format: extractFormat as ExtractFormat,
+      include: parseNameList(input('extract-include')),
+      exclude: parseNameList(input('extract-exclude')),
+      maxBytes: parseSize(input('extract-max-bytes'), 'extract-max-bytes') ?? DEFAULT_EXTRACT_MAX_BYTES,
+      maxEntries: extractMaxEntries ? parseInt(extractMaxEntries, 10) : DEFAULT_EXTRACT_MAX_ENTRIES,
+    });
+
+  const provenanceHeaders = parseNameList(input('provenance-headers'));
+  const provenance: ProvenanceOptions | undefined = input('provenance') === 'true'
+    ? {
+      prefix: input('provenance-prefix') || undefined,
+      headers: provenanceHeaders.length > 0 ? provenanceHeaders.map((name) => name.toLowerCase()) : DEFAULT_PROVENANCE_HEADERS,
+    }
+    : undefined;
+
+  const keepLast = input('keep-last');
+  const keepDays = input('keep-days');
+  const snapshot = input('snapshot') === 'true'
+    ? validateSnapshotOptions({
+      key: input('snapshot-key') || DEFAULT_SNAPSHOT_KEY,
+      latest: (input('snapshot-latest') || 'none') as SnapshotLatest,
+      latestKey: input('snapshot-latest-key') || undefined,
+      keepLast: keepLast ? Number(keepLast) : undefined,
+      keepDays: keepDays ? Number(keepDays) : undefined,
+      dryRun: input('prune-dry-run') === 'true',
+    })
+    : undefined;
+
+  const expectedSha256 = input('expected-sha256');
+  const expectedChecksum = input('expected-checksum');
+  const s3NativeChecksum = input('s3-native-checksum') === 'true';
+
+  const sse = input('sse');
+  const sseKmsKeyId = input('sse-kms-key-id');
+  const sseKmsEncryptionContextInput = input('sse-kms-encryption-context');
+  const bucketKeyEnabled = input('bucket-key-enabled') === 'true';
+  const sseCustomerAlgorithm = input('sse-customer-algorithm');
+  const sseCustomerKey = input('sse-customer-key');
+  registerSecret(sseCustomerKey);
+
+  const s3Endpoint = input('s3-endpoint');
+  const s3Region = input('s3-region');
+  const s3ForcePathStyle = input('s3-force-path-style') === 'true';
+  const awsAccessKeyId = input('aws-access-key-id');
+  const awsSecretAccessKey = input('aws-secret-access-key');
+  const awsSessionToken = input('aws-session-token');
+  const assumeRoleArn = input('assume-role-arn');
+  const assumeRoleExternalId = input('assume-role-external-id');
+  const assumeRoleSessionName = input('assume-role-session-name');
+  for (const secret of [awsSecretAccessKey, awsSessionToken, assumeRoleExternalId]) {
+    registerSecret(secret);
+  }
+
+  const s3UseProxy = input('s3-use-proxy') === 'true';
+  const s3MaxAttempts = input('s3-retry-max-attempts');
+  const s3RetryBaseDelay = input('s3-retry-base-delay');
+  const s3RetryMaxDelay = input('s3-retry-max-delay');
+  const s3RetryJitter = input('s3-retry-jitter');
+  const s3Retry = s3MaxAttempts || s3RetryBaseDelay || s3RetryMaxDelay || s3RetryJitter
+    ? validateS3RetryOptions({
+      maxAttempts: parseInt(s3MaxAttempts || '3', 10),
+      baseDelay: parseInt(s3RetryBaseDelay || '100', 10),
+      maxDelay: parseInt(s3RetryMaxDelay || '20000', 10),
+      jitter: validateRetryJitter(s3RetryJitter, 's3-retry-jitter'),
+    })
+    : undefined;
+
+  const clientOptions: S3ClientOptions = {
+    endpoint: s3Endpoint || undefined,
+    region: s3Region || undefined,
+    forcePathStyle: s3ForcePathStyle,
+    accessKeyId: awsAccessKeyId || undefined,
+    secretAccessKey: awsSecretAccessKey || undefined,
+    sessionToken: awsSessionToken || undefined,
+    assumeRoleArn: assumeRoleArn || undefined,
+    assumeRoleExternalId: assumeRoleExternalId || undefined,
+    assumeRoleSessionName: assumeRoleSessionName || undefined,
+    retry: s3Retry,
+    proxy: s3UseProxy ? resolveProxy(s3Endpoint || 'https://s3.amazonaws.com', proxy) : undefined,
+  };
+
+  // s3:// sources use the destination's client unless source credentials or a source endpoint are given
+  const sourceAccessKeyId = input('source-aws-access-key-id');
+  const sourceSecretAccessKey = input('source-aws-secret-access-key');
+  const sourceSessionToken = input('source-aws-session-token');
+  const sourceAssumeRoleArn = input('source-assume-role-arn');
+  const sourceAssumeRoleExternalId = input('source-assume-role-external-id');
+  const sourceS3Endpoint = input('source-s3-endpoint');
+  const sourceS3Region = input('source-s3-region');
+  const sftpPassphrase = input('sftp-private-key-passphrase');
+  for (const secret of [sourceSecretAccessKey, sourceSessionToken, sourceAssumeRoleExternalId, sftpPassphrase]) {
+    registerSecret(secret);
+  }
+  const sourceCredentials = sourceAccessKeyId || sourceAssumeRoleArn;
+  const sourceS3: S3ClientOptions = {
+    ...clientOptions,
+    ...(sourceCredentials
+      ? {
+        accessKeyId: sourceAccessKeyId || undefined,
+        secretAccessKey: sourceSecretAccessKey || undefined,
+        sessionToken: sourceSessionToken || undefined,
+        assumeRoleArn: sourceAssumeRoleArn || undefined,
+        assumeRoleExternalId: sourceAssumeRoleExternalId || undefined,
+      }
+      : {}),
+    endpoint: sourceS3Endpoint || clientOptions.endpoint,
+    region: sourceS3Region || clientOptions.region,
+  };
+
+  return {
+    download: {
+      method: method.toUpperCase(),
+      headers: parseHeaders(headersInput),
+      data: postData,
+      timeout,
+      retry,
+      authType,
+      authUsername,
+      authPassword,
+      authToken,
+      oauth2TokenUrl: oauth2TokenUrl || undefined,
+      oauth2ClientId: oauth2ClientId || undefined,
+      oauth2ClientSecret: oauth2ClientSecret || undefined,
+      oauth2Scope: oauth2Scope || undefined,
+      oauth2Audience: oauth2Audience || undefined,
+      sigv4Service: sigv4Service || undefined,
+      sigv4Region: sigv4Region || process.env.AWS_REGION || undefined,
+      expectedChecksum: parseExpectedChecksum(expectedSha256, expectedChecksum),
+      rangedDownload: rangedDownload ? { rangeSize, concurrency: rangeConcurrency } : undefined,
+      validation,
+      keepEncoding,
+      network,
+      redirects,
+      source: {
+        s3: sourceS3,
+        sftpPrivateKey: input('sftp-private-key') || undefined,
+        sftpPassphrase: sftpPassphrase || undefined,
+        sftpHostFingerprint: input('sftp-host-fingerprint') || undefined,
+      },
+    },
+    upload: {
+      bucketOwner: bucketOwner || undefined,
+      acl: acl || undefined,
+      storageClass,
+      contentType: contentTypeOverride || undefined,
+      cacheControl: cacheControl || undefined,
+      metadata: parseMetadata(metadataInput),
+      tags: parseTags(tagsInput),
+      nativeChecksum: s3NativeChecksum,
+      encryption: {
+        sse: sse || undefined,
+        kmsKeyId: sseKmsKeyId || undefined,
+        kmsEncryptionContext: parseKeyValuePairs(sseKmsEncryptionContextInput, 'sse-kms-encryption-context'),
+        bucketKeyEnabled,
+        customerAlgorithm: sseCustomerAlgorithm || undefined,
+        customerKey: sseCustomerKey || undefined,
+      },
+      objectLock: objectLockMode || objectLockRetainUntil || legalHold
+        ? {
+          mode: (objectLockMode || undefined) as ObjectLockMode | undefined,
+          retainUntil: objectLockRetainUntil,
+          legalHold,
+        }
+        : undefined,
+      clientOptions,
+    },
+    ifNotExists,
+    ifChanged,
+    skipIfIdentical,
+    pagination,
+    transform,
+    extract,
+    provenance,
+    snapshot,
+    waitFor,
+  };
+}
+
+/**
+ * Merge optional key/value maps, with entries in `override` taking precedence
+ */
+function mergeKeyValues(
+  base?: Record<string, string>,
+  override?: Record<string, string>
+): Record<string, string> | undefined {
+  if (!base && !override) return undefined;
+  return { ...base, ...override };
+}
+
+/**
+ * Build the transfer options for a manifest entry on top of the shared inputs
+ */
+export function entryTransferOptions(shared: SharedOptions, entry: ManifestEntry, location: StorageLocation): TransferOptions {
+  return {
+    download: {
+      ...shared.download,
+      url: entry.url,
+      method: entry.method ? entry.method.toUpperCase() : shared.download.method,
+      headers: mergeKeyValues(shared.download.headers, entry.headers),
+      data: entry.data ?? shared.download.data,
+      expectedChecksum: entry.expectedChecksum ?? shared.download.expectedChecksum,
+    },
+    upload: {
+      ...shared.upload,
+      ...location,
+      contentType: entry.contentType || shared.upload.contentType,
+      cacheControl: entry.cacheControl || shared.upload.cacheControl,
+      storageClass: entry.storageClass || shared.upload.storageClass,
+      metadata: mergeKeyValues(shared.upload.metadata, entry.metadata),
+      tags: mergeKeyValues(shared.upload.tags, entry.tags),
+    },
+    ifNotExists: shared.ifNotExists,
+    ifChanged: shared.ifChanged,
+    skipIfIdentical: shared.skipIfIdentical,
+    pagination: shared.pagination,
+    transform: shared.transform,
+    extract: shared.extract,
+    provenance: shared.provenance,
+    snapshot: shared.snapshot,
+    waitFor: shared.waitFor,
+  };
+}
+
+
+/**
+ * Read the options of a single transfer: url and s3-bucket / s3-key, a destination-url, or a destinations list
+ */
+export function readTransferOptions(input: InputReader, shared: SharedOptions): TransferOptions {
+  const url = input('url', { required: true });
+  const destinationUrl = input('destination-url');
+  const destinationsInput = input('destinations');
+  const s3Bucket = input('s3-bucket', { required: !destinationsInput && !destinationUrl });
+  const s3Key = input('s3-key', { required: !destinationsInput && !destinationUrl });
+  const ifMatch = input('if-match');
+
+  if (destinationUrl && (s3Bucket || s3Key || destinationsInput)) {
+    throw new Error('destination-url cannot be combined with s3-bucket, s3-key or destinations');
+  }
+  const location: StorageLocation = destinationUrl
+    ? parseDestinationUrl(destinationUrl)
+    : { storage: 's3', bucket: s3Bucket, key: s3Key };
+  if (!location.key && !destinationsInput) {
+    throw new Error(`Invalid destination-url: ${destinationUrl}. It has no key or file name`);
+  }
+
+  if (ifMatch && shared.ifNotExists) {
+    throw new Error('if-match and if-not-exists cannot both be set');
+  }
+  const fanOut: FanOutOptions | undefined = destinationsInput
+    ? {
+      destinations: parseDestinations(destinationsInput, s3Bucket, s3Key),
+      onError: validateFanOutPolicy(input('destinations-on-error')),
+    }
+    : undefined;
+
+  return {
+    download: { ...shared.download, url },
+    upload: { ...shared.upload, ...location, ifMatch: ifMatch || undefined },
+    ifNotExists: shared.ifNotExists,
+    ifChanged: shared.ifChanged,
+    skipIfIdentical: shared.skipIfIdentical,
+    pagination: shared.pagination,
+    transform: shared.transform,
+    extract: shared.extract,
+    fanOut,
+    provenance: shared.provenance,
+    snapshot: shared.snapshot,
+    waitFor: shared.waitFor,
+  };
+}
+
+export interface ManifestSettings {
+  entries: ManifestEntry[];
+  defaultBucket: string; // Bucket for entries that do not set one
+  destination?: StorageLocation; // destination-url for entries without a bucket; its key is a folder prefix
+  concurrency: number; // Transfers running at the same time
+  failOnError: boolean;
+}
+
+/**
+ * Read the manifest and the settings of manifest mode
+ */
+export function readManifestSettings(input: InputReader): ManifestSettings {
+  const concurrencyInput = input('manifest-concurrency');
+  const concurrency = parseInt(concurrencyInput || '4', 10);
+  if (isNaN(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid manifest-concurrency: ${concurrencyInput}. Must be a positive integer`);
+  }
+
+  if (input('destinations')) {
+    throw new Error('destinations cannot be combined with manifest, set a bucket on each entry instead');
+  }
+  if (input('if-match')) {
+    throw new Error('if-match cannot be combined with manifest');
+  }
+
+  const destinationUrl = input('destination-url');
+  const defaultBucket = input('s3-bucket');
+  if (destinationUrl && defaultBucket) {
+    throw new Error('destination-url cannot be combined with s3-bucket');
+  }
+  const destination = destinationUrl ? parseDestinationUrl(destinationUrl) : undefined;
+  if (destination?.key && !destination.key.endsWith('/')) {
+    destination.key = `${destination.key}/`;
+  }
+
+  return {
+    entries: parseManifest(input('manifest')),
+    defaultBucket,
+    destination,
+    concurrency,
+    failOnError: input('manifest-fail-on-error') !== 'false',
+  };
+}
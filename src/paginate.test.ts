@@ -0,0 +1,130 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { parseNextLink } from './paginate';
+import { queryJsonPath, validateJsonPath } from './jsonpath';
+import { readSharedOptions, readTransferOptions, silentLogger, urlToS3 } from './lib';
+import { withLogger } from './logger';
+
+describe('parseNextLink', () => {
+  it('finds rel="next" among several links', () => {
+    expect(parseNextLink('<https://api.example.com/items?page=1>; rel="prev", <https://api.example.com/items?page=3>; rel="next"'))
+      .toBe('https://api.example.com/items?page=3');
+  });
+
+  it('accepts unquoted and multi-valued rel parameters', () => {
+    expect(parseNextLink('</items?page=2>; rel=next')).toBe('/items?page=2');
+    expect(parseNextLink('</items?page=9>; rel="next last"')).toBe('/items?page=9');
+  });
+
+  it('keeps commas inside the URL and returns undefined without a next link', () => {
+    expect(parseNextLink('</items?ids=1,2,3>; rel="next"')).toBe('/items?ids=1,2,3');
+    expect(parseNextLink('</items?page=1>; rel="first"')).toBeUndefined();
+    expect(parseNextLink(undefined)).toBeUndefined();
+  });
+});
+
+describe('queryJsonPath', () => {
+  const document = { data: { items: [{ id: 7 }] }, 'next-page': '/p2', meta: { cursor: null } };
+
+  it('follows dot, bracket and index segments', () => {
+    expect(queryJsonPath(document, '$.data.items[0].id')).toBe(7);
+    expect(queryJsonPath(document, "$['next-page']")).toBe('/p2');
+    expect(queryJsonPath(document, 'data.items')).toEqual([{ id: 7 }]);
+  });
+
+  it('returns undefined for missing segments', () => {
+    expect(queryJsonPath(document, '$.meta.cursor.value')).toBeUndefined();
+    expect(queryJsonPath(document, '$.data.items[3]')).toBeUndefined();
+  });
+
+  it('rejects unsupported expressions', () => {
+    expect(() => validateJsonPath('$.items[*]', 'pagination-next-path'))
+      .toThrow('Invalid pagination-next-path: Unsupported JSONPath expression: $.items[*]');
+  });
+});
+
+describe('paginated transfer', () => {
+  let server: http.Server;
+  let base: string;
+  let dir: string;
+  let otherOrigin: string;
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      const url = new URL(request.url as string, base);
+      const page = parseInt(url.searchParams.get('page') || '1', 10);
+      response.setHeader('Content-Type', 'application/json');
+      if (url.pathname === '/link' && page < 3) {
+        response.setHeader('Link', `</link?page=${page + 1}>; rel="next"`);
+      }
+      if (url.pathname === '/next-url') {
+        response.end(JSON.stringify({ items: [page], next: page < 2 ? `/next-url?page=${page + 1}` : null }));
+        return;
+      }
+      if (url.pathname === '/elsewhere') {
+        response.end(JSON.stringify({ items: [page], next: `${otherOrigin}/next-url?page=2` }));
+        return;
+      }
+      response.end(JSON.stringify({ items: [page] }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    base = `http://127.0.0.1:${port}`;
+    otherOrigin = `http://localhost:${port}`;
+  });
+  afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'url-to-s3-test-'));
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const crawl = (inputs: Record<string, string>) => {
+    // The test server is local, so a proxy from the environment must not be used
+    const input = (name: string) => ({ proxy: 'none', ...inputs })[name] ?? '';
+    return withLogger(silentLogger, () => urlToS3(readTransferOptions(input, readSharedOptions(input))));
+  };
+
+  it('stores each page in the s3-key folder, adding the missing slash', async () => {
+    const result = await crawl({
+      'url': `${base}/link`,
+      'destination-url': `file://${dir}/pages`,
+      'pagination': 'link',
+    });
+
+    expect(result.pageCount).toBe(3);
+    expect(fs.readdirSync(path.join(dir, 'pages')).filter((name) => !name.endsWith('.metadata.json')).sort())
+      .toEqual(['page-00001.json', 'page-00002.json', 'page-00003.json']);
+    expect(fs.readFileSync(path.join(dir, 'pages', 'page-00003.json'), 'utf8')).toBe('{"items":[3]}');
+  });
+
+  it('follows next-url fields into one JSONL object', async () => {
+    const result = await crawl({
+      'url': `${base}/next-url`,
+      'destination-url': `file://${dir}/all.jsonl`,
+      'pagination': 'next-url',
+      'pagination-next-path': '$.next',
+      'pagination-items-path': '$.items',
+      'pagination-output': 'jsonl',
+    });
+
+    expect(result.pageCount).toBe(2);
+    expect(fs.readFileSync(path.join(dir, 'all.jsonl'), 'utf8')).toBe('1\n2\n');
+  });
+
+  it('refuses a next page on another origin', async () => {
+    await expect(crawl({
+      'url': `${base}/elsewhere`,
+      'destination-url': `file://${dir}/pages/`,
+      'pagination': 'next-url',
+      'pagination-next-path': '$.next',
+      'auth-type': 'bearer',
+      'auth-token': 'secret-token',
+    })).rejects.toThrow(`Page 1: next page ${otherOrigin}/next-url?page=2 is not on ${base}`);
+  });
+});
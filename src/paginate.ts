@@ -0,0 +1,338 @@
+import { Readable } from 'stream';
+import { log } from './logger';
+import { downloadAsStream, DownloadOptions, isHttpUrl } from './download';
+import { objectUrl, writeObject } from './storage';
+import { queryJsonPath, validateJsonPath } from './jsonpath';
+import { redactUrl } from './redact';
+import { extensionForContentType, hasKeyPlaceholders, resolveKeyTemplate } from './key-template';
+import type { TransferOptions, TransferResult } from './transfer';
+
+export type PaginationMode = 'link' | 'next-url' | 'cursor' | 'offset' | 'page';
+export type PaginationOutput = 'objects' | 'jsonl';
+
+export interface PaginationOptions {
+  mode: PaginationMode;
+  output: PaginationOutput;
+  maxPages: number;
+  nextPath?: string; // JSONPath to the next URL (next-url) or next cursor (cursor)
+  param?: string; // Query parameter carrying the cursor, offset or page number
+  start?: number; // First offset or page number
+  pageSize?: number; // Offset increment per page (offset)
+  itemsPath?: string; // JSONPath to the items array in each page
+}
+
+interface Page {
+  url: string;
+  statusCode: number;
+  attempts: number;
+  contentType?: string;
+  linkHeader?: string;
+  body: Buffer;
+}
+
+const PAGINATION_MODES: PaginationMode[] = ['link', 'next-url', 'cursor', 'offset', 'page'];
+const PAGINATION_OUTPUTS: PaginationOutput[] = ['objects', 'jsonl'];
+
+/**
+ * Validate pagination options
+ */
+export function validatePaginationOptions(options: PaginationOptions): PaginationOptions {
+  if (!PAGINATION_MODES.includes(options.mode)) {
+    throw new Error(`Invalid pagination: ${options.mode}. Must be one of: none, ${PAGINATION_MODES.join(', ')}`);
+  }
+  if (!PAGINATION_OUTPUTS.includes(options.output)) {
+    throw new Error(`Invalid pagination-output: ${options.output}. Must be one of: ${PAGINATION_OUTPUTS.join(', ')}`);
+  }
+  if (isNaN(options.maxPages) || options.maxPages < 1) {
+    throw new Error('max-pages must be a positive integer');
+  }
+  if ((options.mode === 'next-url' || options.mode === 'cursor') && !options.nextPath) {
+    throw new Error(`pagination-next-path is required for ${options.mode} pagination`);
+  }
+  if (options.mode === 'offset' && (!options.pageSize || options.pageSize < 1)) {
+    throw new Error('pagination-page-size is required for offset pagination');
+  }
+  if (options.nextPath) {
+    validateJsonPath(options.nextPath, 'pagination-next-path');
+  }
+  if (options.itemsPath) {
+    validateJsonPath(options.itemsPath, 'pagination-items-path');
+  }
+
+  return {
+    ...options,
+    param: options.param || (options.mode === 'cursor' ? 'cursor' : options.mode === 'offset' ? 'offset' : 'page'),
+    start: options.start ?? (options.mode === 'page' ? 1 : 0),
+  };
+}
+
+/**
+ * Read a stream fully into a buffer
+ */
+async function readStream(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Find the rel="next" target in an RFC 5988 Link header
+ */
+export function parseNextLink(header?: string): string | undefined {
+  if (!header) return undefined;
+
+  for (const part of header.split(/,(?=\s*<)/)) {
+    const match = /<([^>]*)>(.*)/.exec(part.trim());
+    const rel = match ? /;\s*rel\s*=\s*"?([^";]+)"?/i.exec(match[2]) : null;
+    // rel may hold several space-separated relation types (e.g., rel="next last")
+    if (match && rel && rel[1].trim().toLowerCase().split(/\s+/).includes('next')) {
+      return match[1];
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Return the URL with a query parameter set
+ */
+function withQueryParam(url: string, name: string, value: string): string {
+  const parsed = new URL(url);
+  parsed.searchParams.set(name, value);
+  return parsed.toString();
+}
+
+/**
+ * Resolve a next page URL named by the response, refusing other origins
+ * Every page is requested with the same credentials, so they must not be sent to a host the API names.
+ */
+function nextPageUrl(next: string, currentUrl: string, origin: string, pageNumber: number): string {
+  const resolved = new URL(next, currentUrl);
+  if (resolved.origin !== origin) {
+    throw new Error(
+      `Page ${pageNumber}: next page ${redactUrl(resolved.toString())} is not on ${origin}; ` +
+      'pagination only follows next pages on the origin of the first request'
+    );
+  }
+  return resolved.toString();
+}
+
+/**
+ * Parse a page body as JSON
+ */
+function parseJson(page: Page, pageNumber: number): unknown {
+  try {
+    return JSON.parse(page.body.toString('utf8'));
+  } catch (error) {
+    throw new Error(`Page ${pageNumber} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Select the items array of a page (the whole document if no items path is set)
+ */
+function pageItems(document: unknown, options: PaginationOptions): unknown[] | undefined {
+  const items = options.itemsPath ? queryJsonPath(document, options.itemsPath) : document;
+  return Array.isArray(items) ? items : undefined;
+}
+
+/**
+ * Fetch the pages of a paginated API one at a time, following the configured mode
+ */
+async function* fetchPages(
+  download: DownloadOptions,
+  options: PaginationOptions
+): AsyncGenerator<{ page: Page; document?: unknown }> {
+  const param = options.param as string;
+  const start = options.start as number;
+  const origin = new URL(download.url).origin;
+  let url: string | undefined = options.mode === 'offset' || options.mode === 'page'
+    ? withQueryParam(download.url, param, start.toString())
+    : download.url;
+
+  for (let pageNumber = 1; url; pageNumber++) {
+    if (pageNumber > options.maxPages) {
+      log.warning(`Reached max-pages (${options.maxPages}), stopping before ${redactUrl(url)}`);
+      return;
+    }
+
+    log.info(`Fetching page ${pageNumber}: ${redactUrl(url)}`);
+    const result = await downloadAsStream({ ...download, url, rangedDownload: undefined });
+    const page: Page = {
+      url,
+      statusCode: result.statusCode,
+      attempts: result.attempts,
+      contentType: result.contentType,
+      linkHeader: result.responseHeaders['link'],
+      body: await readStream(result.stream),
+    };
+
+    const needsJson = options.mode !== 'link' || options.output === 'jsonl';
+    const document = needsJson ? parseJson(page, pageNumber) : undefined;
+
+    let nextUrl: string | undefined;
+    switch (options.mode) {
+      case 'link': {
+        const next = parseNextLink(page.linkHeader);
+        nextUrl = next ? nextPageUrl(next, url, origin, pageNumber) : undefined;
+        break;
+      }
+      case 'next-url': {
+        const next = queryJsonPath(document, options.nextPath as string);
+        nextUrl = typeof next === 'string' && next ? nextPageUrl(next, url, origin, pageNumber) : undefined;
+        break;
+      }
+      case 'cursor': {
+        const cursor = queryJsonPath(document, options.nextPath as string);
+        nextUrl = cursor !== undefined && cursor !== null && cursor !== ''
+          ? withQueryParam(download.url, param, String(cursor))
+          : undefined;
+        break;
+      }
+      case 'offset':
+      case 'page': {
+        const items = pageItems(document, options);
+        if (!items) {
+          throw new Error(
+            `Page ${pageNumber}: ${options.itemsPath ? `pagination-items-path ${options.itemsPath}` : 'response body'} ` +
+            'is not an array, cannot detect the last page'
+          );
+        }
+        // An empty page, or a short page in offset mode, is the last one
+        const isLastPage = items.length === 0 || (options.mode === 'offset' && items.length < (options.pageSize as number));
+        const nextValue = options.mode === 'offset'
+          ? start + pageNumber * (options.pageSize as number)
+          : start + pageNumber;
+        nextUrl = isLastPage ? undefined : withQueryParam(download.url, param, nextValue.toString());
+        if (items.length === 0) {
+          // Nothing to store for the terminating empty page
+          return;
+        }
+        break;
+      }
+    }
+
+    yield { page, document };
+
+    if (nextUrl === url) {
+      log.warning(`Next page URL is the same as the current one, stopping: ${redactUrl(url)}`);
+      return;
+    }
+    url = nextUrl;
+  }
+}
+
+/**
+ * Convert a page to JSONL lines: one line per item, or the whole page as one line
+ */
+function toJsonLines(document: unknown, options: PaginationOptions): string {
+  const items = (options.itemsPath || Array.isArray(document)) ? pageItems(document, options) ?? [] : [document];
+  return items.map((item) => `${JSON.stringify(item)}\n`).join('');
+}
+
+/**
+ * Crawl a paginated API into S3
+ * Pages are stored as separate objects under the s3-key prefix (objects), or concatenated
+ * into a single JSONL object streamed to s3-key while pages are fetched (jsonl)
+ */
+export async function paginatedTransfer(
+  options: TransferOptions,
+  pagination: PaginationOptions
+): Promise<TransferResult> {
+  if (!isHttpUrl(options.download.url)) {
+    throw new Error('pagination requires an http:// or https:// url');
+  }
+  if (options.ifNotExists || options.ifChanged || options.upload.ifMatch || options.skipIfIdentical) {
+    throw new Error('if-not-exists, if-changed, if-match and skip-if-identical cannot be combined with pagination');
+  }
+  if (options.provenance) {
+    throw new Error('provenance cannot be combined with pagination');
+  }
+  if ((options.transform && options.transform !== 'none') || options.download.keepEncoding) {
+    throw new Error('transform and keep-encoding cannot be combined with pagination');
+  }
+  if (options.extract || options.fanOut) {
+    throw new Error('extract and destinations cannot be combined with pagination');
+  }
+  if (options.download.expectedChecksum) {
+    throw new Error('expected-sha256 and expected-checksum cannot be combined with pagination');
+  }
+
+  const key = hasKeyPlaceholders(options.upload.key)
+    ? resolveKeyTemplate(options.upload.key, { now: new Date(), url: options.download.url })
+    : options.upload.key;
+
+  log.info(`Pagination: ${pagination.mode}, output: ${pagination.output}, max pages: ${pagination.maxPages}`);
+
+  let pageCount = 0;
+  let totalBytes = 0;
+  let lastStatusCode = 0;
+  let attempts = 0;
+
+  if (pagination.output === 'jsonl') {
+    // Pages are only fetched as the upload reads, so the crawl is backpressured by S3
+    async function* jsonLines(): AsyncGenerator<Buffer> {
+      for await (const { page, document } of fetchPages(options.download, pagination)) {
+        pageCount++;
+        totalBytes += page.body.length;
+        lastStatusCode = page.statusCode;
+        attempts += page.attempts;
+        yield Buffer.from(toJsonLines(document, pagination));
+      }
+    }
+
+    const uploadResult = await writeObject({
+      ...options.upload,
+      key,
+      stream: Readable.from(jsonLines()),
+      contentType: options.upload.contentType || 'application/x-ndjson',
+    });
+
+    log.info(`Stored ${pageCount} pages (${totalBytes} bytes) as JSONL`);
+
+    return {
+      statusCode: lastStatusCode,
+      attempts,
+      bytesTransferred: totalBytes,
+      s3Url: uploadResult.s3Url,
+      etag: uploadResult.etag,
+      versionId: uploadResult.versionId,
+      objectExisted: false,
+      pageCount,
+    };
+  }
+
+  // Pages go under s3-key as a folder, whether or not it ends in a slash
+  const prefix = !key || key.endsWith('/') ? key : `${key}/`;
+  for await (const { page } of fetchPages(options.download, pagination)) {
+    pageCount++;
+    totalBytes += page.body.length;
+    lastStatusCode = page.statusCode;
+    attempts += page.attempts;
+
+    const extension = extensionForContentType(page.contentType) || 'bin';
+    const pageKey = `${prefix}page-${pageCount.toString().padStart(5, '0')}.${extension}`;
+
+    await writeObject({
+      ...options.upload,
+      key: pageKey,
+      stream: Readable.from(page.body),
+      contentLengthHint: page.body.length,
+      contentType: options.upload.contentType || page.contentType,
+    });
+  }
+
+  log.info(`Stored ${pageCount} pages (${totalBytes} bytes) under ${objectUrl({ ...options.upload, key: prefix })}`);
+
+  return {
+    statusCode: lastStatusCode,
+    attempts,
+    bytesTransferred: totalBytes,
+    s3Url: objectUrl({ ...options.upload, key: prefix }),
+    etag: '',
+    objectExisted: false,
+    pageCount,
+  };
+}
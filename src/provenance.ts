@@ -0,0 +1,207 @@
+import { Readable } from 'stream';
+import { log } from './logger';
+import { UploadOptions } from './upload';
+import { objectUrl, StorageType, writeObject } from './storage';
+import { redactHeaders, redactUrl } from './redact';
+import { Checksums } from './checksum';
+
+export const PROVENANCE_SCHEMA = 'https://github.com/predictr-io/url-to-s3/blob/main/schemas/provenance-v1.schema.json';
+export const PROVENANCE_SCHEMA_VERSION = 1;
+
+// Response headers recorded unless provenance-headers is set
+export const DEFAULT_PROVENANCE_HEADERS = [
+  'content-type',
+  'content-length',
+  'content-encoding',
+  'content-disposition',
+  'etag',
+  'last-modified',
+  'cache-control',
+  'date',
+];
+
+export interface ProvenanceOptions {
+  prefix?: string; // Sidecar key prefix; <key>.provenance.json next to the object when unset
+  headers: string[]; // Response headers to record (lowercase)
+}
+
+/**
+ * The fetch and storage facts a provenance record is built from
+ */
+export interface ProvenanceFacts {
+  url: string;
+  finalUrl: string;
+  method: string;
+  statusCode: number;
+  attempts: number;
+  responseHeaders: Record<string, string>;
+  startedAt: Date;
+  completedAt: Date;
+  bytes: number;
+  storedBytes: number;
+  contentType?: string;
+  contentEncoding?: string;
+  checksums?: Checksums;
+  storage?: StorageType;
+  bucket: string;
+  key: string;
+  etag: string;
+  versionId?: string;
+}
+
+/**
+ * Provenance record, version 1 (see schemas/provenance-v1.schema.json)
+ */
+export interface ProvenanceRecord {
+  $schema: string;
+  schemaVersion: number;
+  source: {
+    url: string;
+    finalUrl: string;
+    method: string;
+    statusCode: number;
+    attempts: number;
+    headers: Record<string, string>;
+  };
+  fetch: {
+    startedAt: string;
+    completedAt: string;
+  };
+  content: {
+    bytes: number;
+    storedBytes: number;
+    contentType: string | null;
+    contentEncoding: string | null;
+    sha256: string | null;
+    sha1: string | null;
+    md5: string | null;
+  };
+  object: {
+    bucket: string;
+    key: string;
+    s3Url: string;
+    etag: string;
+    versionId: string | null;
+  };
+  github: {
+    serverUrl: string | null;
+    repository: string | null;
+    sha: string | null;
+    ref: string | null;
+    workflow: string | null;
+    job: string | null;
+    runId: string | null;
+    runAttempt: string | null;
+    runUrl: string | null;
+    actor: string | null;
+  };
+}
+
+/**
+ * Key of the sidecar object for an uploaded key
+ */
+export function provenanceKey(key: string, options: ProvenanceOptions): string {
+  return `${options.prefix ?? ''}${key}.provenance.json`;
+}
+
+/**
+ * Read the GitHub Actions run context from the environment
+ */
+function githubContext(): ProvenanceRecord['github'] {
+  const env = process.env;
+  const serverUrl = env.GITHUB_SERVER_URL || null;
+  const repository = env.GITHUB_REPOSITORY || null;
+  const runId = env.GITHUB_RUN_ID || null;
+
+  return {
+    serverUrl,
+    repository,
+    sha: env.GITHUB_SHA || null,
+    ref: env.GITHUB_REF || null,
+    workflow: env.GITHUB_WORKFLOW || null,
+    job: env.GITHUB_JOB || null,
+    runId,
+    runAttempt: env.GITHUB_RUN_ATTEMPT || null,
+    runUrl: serverUrl && repository && runId ? `${serverUrl}/${repository}/actions/runs/${runId}` : null,
+    actor: env.GITHUB_ACTOR || null,
+  };
+}
+
+/**
+ * Build the provenance record for a transfer
+ * URLs and sensitive headers are redacted, so the record is safe to share with auditors
+ */
+export function buildProvenanceRecord(facts: ProvenanceFacts, options: ProvenanceOptions): ProvenanceRecord {
+  const headers: Record<string, string> = {};
+  for (const name of options.headers) {
+    const value = facts.responseHeaders[name.toLowerCase()];
+    if (value !== undefined) {
+      headers[name.toLowerCase()] = value;
+    }
+  }
+
+  return {
+    $schema: PROVENANCE_SCHEMA,
+    schemaVersion: PROVENANCE_SCHEMA_VERSION,
+    source: {
+      url: redactUrl(facts.url),
+      finalUrl: redactUrl(facts.finalUrl),
+      method: facts.method,
+      statusCode: facts.statusCode,
+      attempts: facts.attempts,
+      headers: redactHeaders(headers),
+    },
+    fetch: {
+      startedAt: facts.startedAt.toISOString(),
+      completedAt: facts.completedAt.toISOString(),
+    },
+    content: {
+      bytes: facts.bytes,
+      storedBytes: facts.storedBytes,
+      contentType: facts.contentType ?? null,
+      contentEncoding: facts.contentEncoding ?? null,
+      sha256: facts.checksums?.sha256 ?? null,
+      sha1: facts.checksums?.sha1 ?? null,
+      md5: facts.checksums?.md5 ?? null,
+    },
+    object: {
+      bucket: facts.bucket,
+      key: facts.key,
+      s3Url: objectUrl(facts),
+      etag: facts.etag,
+      versionId: facts.versionId ?? null,
+    },
+    github: githubContext(),
+  };
+}
+
+/**
+ * Upload the provenance record next to the object it describes
+ * The sidecar gets the object's bucket, credentials, encryption and retention,
+ * but not its metadata, tags or preconditions.
+ */
+export async function writeProvenance(
+  upload: Omit<UploadOptions, 'stream' | 'key'>,
+  record: ProvenanceRecord,
+  options: ProvenanceOptions
+): Promise<string> {
+  const key = provenanceKey(record.object.key, options);
+  const body = Buffer.from(`${JSON.stringify(record, null, 2)}\n`);
+  log.info(`Writing provenance record to ${objectUrl({ ...upload, key })}`);
+
+  const result = await writeObject({
+    storage: upload.storage,
+    bucket: upload.bucket,
+    key,
+    stream: Readable.from(body),
+    contentLengthHint: body.length,
+    contentType: 'application/json',
+    bucketOwner: upload.bucketOwner,
+    acl: upload.acl,
+    storageClass: upload.storageClass,
+    encryption: upload.encryption,
+    objectLock: upload.objectLock,
+    clientOptions: upload.clientOptions,
+  });
+  return result.s3Url;
+}
@@ -0,0 +1,76 @@
+import { Readable } from 'stream';
+import { createRangedStream, parseContentRangeTotal, RangeFetcher, RangeStatusError } from './ranged';
+import { silentLogger, withLogger } from './logger';
+import { RetryPolicy } from './retry';
+
+const source = Buffer.from('abcdefghij');
+
+const retry: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 0,
+  maxDelay: 0,
+  jitter: 'none',
+  statusCodes: [503],
+  errorCodes: ['ECONNRESET'],
+  maxRetryAfter: 0,
+};
+
+/**
+ * Read the ranged stream of the 10-byte source in ranges of 4 bytes
+ */
+async function download(fetchRange: RangeFetcher, policy?: RetryPolicy): Promise<string> {
+  return withLogger(silentLogger, async () => {
+    const stream = createRangedStream(Readable.from([source.subarray(0, 4)]), source.length, { rangeSize: 4, concurrency: 2, retry: policy }, fetchRange);
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString();
+  });
+}
+
+describe('parseContentRangeTotal', () => {
+  it('reads the total size of a Content-Range header', () => {
+    expect(parseContentRangeTotal('bytes 0-99/1234')).toBe(1234);
+    expect(parseContentRangeTotal('bytes 0-99/*')).toBeUndefined();
+    expect(parseContentRangeTotal(undefined)).toBeUndefined();
+  });
+});
+
+describe('createRangedStream', () => {
+  it('assembles the ranges in order', async () => {
+    const fetchRange: RangeFetcher = async (start, end) => source.subarray(start, end + 1);
+    await expect(download(fetchRange)).resolves.toBe('abcdefghij');
+  });
+
+  it('retries retryable statuses, network errors and short reads under the policy', async () => {
+    const failures: Record<number, unknown[]> = {
+      4: [new RangeStatusError(503, 0), Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' })],
+      8: [source.subarray(8, 9)],
+    };
+    const calls: number[] = [];
+    const fetchRange: RangeFetcher = async (start, end) => {
+      calls.push(start);
+      const failure = failures[start]?.shift();
+      if (failure instanceof Buffer) return failure;
+      if (failure) throw failure;
+      return source.subarray(start, end + 1);
+    };
+
+    await expect(download(fetchRange, retry)).resolves.toBe('abcdefghij');
+    expect(calls.sort()).toEqual([4, 4, 4, 8, 8]);
+  });
+
+  it('fails on statuses the policy does not retry, and without a policy', async () => {
+    const forbidden: RangeFetcher = async () => {
+      throw new RangeStatusError(403);
+    };
+    await expect(download(forbidden, retry)).rejects.toThrow('Range 4-7 failed: unexpected status 403 for range request');
+
+    const unavailable: RangeFetcher = async () => {
+      throw new RangeStatusError(503);
+    };
+    await expect(download(unavailable)).rejects.toThrow('Range 4-7 failed: unexpected status 503 for range request');
+    await expect(download(unavailable, retry)).rejects.toThrow('Range 4-7 failed after 3 attempts: unexpected status 503');
+  });
+});
@@ -0,0 +1,170 @@
+import { Readable } from 'stream';
+import { log } from './logger';
+import { isRetryableError, isRetryableStatus, retryDelay, RetryPolicy, sleep } from './retry';
+
+export interface RangedDownloadOptions {
+  rangeSize: number; // Bytes per range request
+  concurrency: number; // Maximum range requests in flight
+  retry?: RetryPolicy; // Applied to each range on its own; without it a failed range fails the download
+}
+
+/**
+ * Fetches bytes [start, end] (inclusive) of the source in a single attempt
+ */
+export type RangeFetcher = (start: number, end: number) => Promise<Buffer>;
+
+/**
+ * A range request answered with a status other than 206 Partial Content
+ */
+export class RangeStatusError extends Error {
+  constructor(readonly status: number, readonly retryAfter?: number) {
+    super(`unexpected status ${status} for range request`);
+    this.name = 'RangeStatusError';
+  }
+}
+
+/**
+ * A range response shorter or longer than the requested range
+ */
+class RangeLengthError extends Error {
+  constructor(expected: number, received: number) {
+    super(`expected ${expected} bytes, received ${received}`);
+    this.name = 'RangeLengthError';
+  }
+}
+
+/**
+ * Parse the total size from a Content-Range header (e.g., "bytes 0-99/1234")
+ * Returns undefined if the header is missing or the total is unknown ("*")
+ */
+export function parseContentRangeTotal(header?: string): number | undefined {
+  if (!header) return undefined;
+
+  const match = /^bytes\s+\d+-\d+\/(\d+)$/i.exec(header.trim());
+  if (!match) return undefined;
+
+  return parseInt(match[1], 10);
+}
+
+/**
+ * Read a stream fully into a buffer
+ */
+function readToBuffer(stream: Readable): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+}
+
+/**
+ * Check whether a failed range is retried by the policy
+ * Short reads are always retried; statuses and network errors follow the policy
+ */
+function isRetryableRangeError(policy: RetryPolicy, error: unknown): boolean {
+  if (error instanceof RangeLengthError) return true;
+  if (error instanceof RangeStatusError) return isRetryableStatus(policy, error.status);
+  return isRetryableError(policy, (error as { code?: string } | undefined)?.code);
+}
+
+/**
+ * Fetch a range, retrying it on its own as the retry policy allows
+ */
+async function fetchRangeWithRetry(
+  fetchRange: RangeFetcher,
+  start: number,
+  end: number,
+  retry?: RetryPolicy
+): Promise<Buffer> {
+  const maxAttempts = retry ? retry.maxAttempts : 1;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const data = await fetchRange(start, end);
+      if (data.length !== end - start + 1) {
+        throw new RangeLengthError(end - start + 1, data.length);
+      }
+      return data;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!retry || attempt >= maxAttempts || !isRetryableRangeError(retry, error)) {
+        throw new Error(`Range ${start}-${end} failed${attempt > 1 ? ` after ${attempt} attempts` : ''}: ${message}`);
+      }
+
+      const retryAfter = error instanceof RangeStatusError ? error.retryAfter : undefined;
+      const delay = retryDelay(retry, attempt, retryAfter);
+      log.warning(
+        `Range ${start}-${end} failed (${message}), retry ${attempt}/${maxAttempts - 1} after ${delay}ms` +
+        `${retryAfter !== undefined ? ' (Retry-After)' : ''}...`
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Create a stream that yields the source in order, fetching byte ranges concurrently
+ *
+ * The first range is taken from the initial (206) response. Remaining ranges are
+ * fetched with at most `concurrency` requests in flight; ranges are only requested
+ * as the consumer reads, so memory use is bounded by rangeSize × concurrency.
+ */
+export function createRangedStream(
+  firstRange: Readable,
+  totalSize: number,
+  options: RangedDownloadOptions,
+  fetchRange: RangeFetcher
+): Readable {
+  const { rangeSize, concurrency, retry } = options;
+  const rangeCount = Math.ceil(totalSize / rangeSize);
+  log.info(`Ranged download: ${rangeCount} ranges of up to ${rangeSize} bytes, ${concurrency} concurrent`);
+
+  const rangeBounds = (index: number): [number, number] => {
+    const start = index * rangeSize;
+    return [start, Math.min(start + rangeSize, totalSize) - 1];
+  };
+
+  // Start buffering the initial response right away so its errors are never unhandled
+  const firstRangeData = readToBuffer(firstRange);
+  firstRangeData.catch(() => undefined);
+
+  async function* generateRanges(): AsyncGenerator<Buffer> {
+    const inFlight: Promise<Buffer>[] = [];
+    let nextIndex = 1;
+
+    const launch = (): void => {
+      while (inFlight.length < concurrency && nextIndex < rangeCount) {
+        const [start, end] = rangeBounds(nextIndex++);
+        const request = fetchRangeWithRetry(fetchRange, start, end, retry);
+        // Avoid unhandled rejections while an earlier range is awaited; the error is rethrown below
+        request.catch(() => undefined);
+        inFlight.push(request);
+      }
+    };
+
+    launch();
+
+    // First range: reuse the initial response, falling back to a fresh range request
+    const [firstStart, firstEnd] = rangeBounds(0);
+    let first: Buffer;
+    try {
+      first = await firstRangeData;
+      if (first.length !== firstEnd - firstStart + 1) {
+        throw new RangeLengthError(firstEnd - firstStart + 1, first.length);
+      }
+    } catch (error) {
+      log.warning(`Initial range failed (${error instanceof Error ? error.message : error}), fetching it again...`);
+      first = await fetchRangeWithRetry(fetchRange, firstStart, firstEnd, retry);
+    }
+    yield first;
+
+    while (inFlight.length > 0) {
+      const data = await (inFlight.shift() as Promise<Buffer>);
+      launch();
+      yield data;
+    }
+  }
+
+  return Readable.from(generateRanges(), { objectMode: false });
+}
@@ -0,0 +1,126 @@
+import { log } from './logger';
+
+export interface RedactionOptions {
+  headers?: string[]; // Extra header names whose values are masked
+  queryParams?: string[]; // Extra query parameter names whose values are masked
+}
+
+const REDACTED = '***';
+
+// Headers that carry credentials or session state
+const DEFAULT_SENSITIVE_HEADERS = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+  'x-auth-token',
+  'x-amz-security-token',
+];
+
+// Query parameters used by presigned URLs and API-key style authentication
+const DEFAULT_SENSITIVE_QUERY_PARAMS = [
+  'x-amz-signature',
+  'x-amz-credential',
+  'x-amz-security-token',
+  'x-goog-signature',
+  'x-goog-credential',
+  'sig',
+  'signature',
+  'token',
+  'access_token',
+  'api_key',
+  'apikey',
+  'client_secret',
+  'password',
+];
+
+const sensitiveHeaders = new Set(DEFAULT_SENSITIVE_HEADERS);
+const sensitiveQueryParams = new Set(DEFAULT_SENSITIVE_QUERY_PARAMS);
+
+/**
+ * Parse a comma- or newline-separated list of names
+ */
+export function parseNameList(input?: string): string[] {
+  if (!input) return [];
+  return input.split(/[,\n]/).map((name) => name.trim()).filter(Boolean);
+}
+
+/**
+ * Add custom header and query parameter names to redact (case-insensitive)
+ */
+export function configureRedaction(options: RedactionOptions): void {
+  for (const name of options.headers ?? []) {
+    sensitiveHeaders.add(name.toLowerCase());
+  }
+  for (const name of options.queryParams ?? []) {
+    sensitiveQueryParams.add(name.toLowerCase());
+  }
+}
+
+/**
+ * Register a value with the logger so it is masked wherever it appears in the log
+ */
+export function registerSecret(value?: string): void {
+  if (value) {
+    log.setSecret(value);
+  }
+}
+
+/**
+ * Check whether a header's value must not be logged
+ */
+export function isSensitiveHeader(name: string): boolean {
+  return sensitiveHeaders.has(name.toLowerCase());
+}
+
+/**
+ * Return a copy of the headers with sensitive values masked
+ */
+export function redactHeaders<T>(headers: Record<string, T>): Record<string, T | string> {
+  const redacted: Record<string, T | string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    redacted[name] = isSensitiveHeader(name) ? REDACTED : value;
+  }
+  return redacted;
+}
+
+/**
+ * Mask credentials in a URL: user info and the values of sensitive query parameters
+ */
+export function redactUrl(url?: string): string {
+  if (!url) return '';
+
+  // data: URLs carry the content itself; keep the media type and the size only
+  if (/^data:/i.test(url)) {
+    const comma = url.indexOf(',');
+    return comma === -1 ? 'data:' : `${url.substring(0, comma + 1)}… (${url.length - comma - 1} characters)`;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    // Not an absolute URL; mask anything that looks like a sensitive key=value pair
+    return url.replace(/([?&;]([^=&;#]+)=)([^&;#]*)/g, (match, prefix: string, name: string) =>
+      sensitiveQueryParams.has(name.toLowerCase()) ? `${prefix}${REDACTED}` : match
+    );
+  }
+
+  let changed = false;
+  if (parsed.username || parsed.password) {
+    parsed.username = REDACTED;
+    parsed.password = '';
+    changed = true;
+  }
+
+  for (const name of new Set(parsed.searchParams.keys())) {
+    if (sensitiveQueryParams.has(name.toLowerCase())) {
+      parsed.searchParams.set(name, REDACTED);
+      changed = true;
+    }
+  }
+
+  // Serializing re-encodes the URL, so keep it as given when there is nothing to mask
+  return changed ? parsed.toString() : url;
+}
@@ -0,0 +1,88 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { DEFAULT_REDIRECT_POLICY, redirectConfig, RedirectHop } from './redirect';
+import { readSharedOptions, readTransferOptions, silentLogger, urlToS3 } from './lib';
+import { withLogger } from './logger';
+
+describe('redirectConfig', () => {
+  // follow-redirects calls beforeRedirect with the next request's options and the redirect response
+  const follow = (target: string, policy = DEFAULT_REDIRECT_POLICY, blockPrivateNetworks = false) => {
+    const hops: RedirectHop[] = [];
+    const config = redirectConfig('https://example.com/file', policy, hops, blockPrivateNetworks);
+    const run = () => withLogger(silentLogger, async () => {
+      config.beforeRedirect?.({ href: target } as never, { statusCode: 302, headers: {} });
+    });
+    return { hops, run };
+  };
+
+  it('records each hop', async () => {
+    const { hops, run } = follow('https://cdn.example.net/file');
+    await run();
+    expect(hops).toEqual([{ statusCode: 302, url: 'https://cdn.example.net/file' }]);
+  });
+
+  it('refuses cross-host, plain http and private address targets when configured', async () => {
+    await expect(follow('https://cdn.example.net/file', { ...DEFAULT_REDIRECT_POLICY, allowCrossHost: false }).run())
+      .rejects.toThrow('Refusing redirect from example.com to another host: https://cdn.example.net/file');
+    await expect(follow('http://example.com/file', { ...DEFAULT_REDIRECT_POLICY, httpsOnly: true }).run())
+      .rejects.toThrow('only https:// URLs are allowed (https-only)');
+    await expect(follow('https://10.0.0.5/file', DEFAULT_REDIRECT_POLICY, true).run())
+      .rejects.toThrow('Refusing to connect to 10.0.0.5: private network address');
+  });
+});
+
+describe('redirected transfer', () => {
+  let server: http.Server;
+  let base: string;
+  let dir: string;
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      if (request.url === '/moved') {
+        response.writeHead(302, { Location: '/file.txt' });
+        response.end();
+        return;
+      }
+      response.setHeader('Content-Type', 'text/plain');
+      response.end('payload');
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+  afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'url-to-s3-test-'));
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const transfer = (inputs: Record<string, string>) => {
+    // The test server is local, so a proxy from the environment must not be used
+    const all: Record<string, string> = { 'proxy': 'none', 'destination-url': `file://${dir}/file.txt`, ...inputs };
+    const input = (name: string) => all[name] ?? '';
+    return withLogger(silentLogger, () => urlToS3(readTransferOptions(input, readSharedOptions(input))));
+  };
+
+  it('follows redirects and reports the chain', async () => {
+    const result = await transfer({ url: `${base}/moved` });
+    expect(result.redirects).toEqual([{ statusCode: 302, url: `${base}/file.txt` }]);
+    expect(result.finalUrl).toBe(`${base}/file.txt`);
+    expect(fs.readFileSync(path.join(dir, 'file.txt'), 'utf8')).toBe('payload');
+  });
+
+  it('fails on the first redirect with max-redirects 0', async () => {
+    await expect(transfer({ 'url': `${base}/moved`, 'max-redirects': '0' }))
+      .rejects.toThrow(`HTTP request redirected with status 302 to ${base}/file.txt, but max-redirects is 0`);
+    expect(fs.existsSync(path.join(dir, 'file.txt'))).toBe(false);
+  });
+
+  it('refuses a loopback source with block-private-networks', async () => {
+    await expect(transfer({ 'url': `${base}/file.txt`, 'block-private-networks': 'true' }))
+      .rejects.toThrow('Refusing to connect to 127.0.0.1: private network address');
+  });
+});
@@ -0,0 +1,84 @@
+import type { AxiosRequestConfig } from 'axios';
+import { log } from './logger';
+import { checkPrivateHost } from './network';
+import { redactUrl } from './redact';
+
+export interface RedirectPolicy {
+  maxRedirects: number; // Redirects followed per request; 0 fails on the first one
+  allowCrossHost: boolean; // Follow redirects to a different host than the one requested
+  httpsOnly: boolean; // Refuse http:// URLs, including redirect targets
+}
+
+/**
+ * One redirect followed by a request
+ */
+export interface RedirectHop {
+  statusCode: number;
+  url: string; // Where the redirect pointed
+}
+
+export const DEFAULT_REDIRECT_POLICY: RedirectPolicy = {
+  maxRedirects: 5,
+  allowCrossHost: true,
+  httpsOnly: false,
+};
+
+/**
+ * Validate the redirect policy
+ */
+export function validateRedirectPolicy(policy: RedirectPolicy): RedirectPolicy {
+  if (!Number.isInteger(policy.maxRedirects) || policy.maxRedirects < 0) {
+    throw new Error(`Invalid max-redirects: ${policy.maxRedirects}. Must be 0 or a positive integer`);
+  }
+  return policy;
+}
+
+/**
+ * Check a URL against the policy before it is requested (the first URL and every redirect target)
+ */
+export function checkRequestUrl(url: string, policy: RedirectPolicy, blockPrivateNetworks = false): void {
+  if (policy.httpsOnly && new URL(url).protocol !== 'https:') {
+    throw new Error(`Refusing to request ${redactUrl(url)}: only https:// URLs are allowed (https-only)`);
+  }
+  if (blockPrivateNetworks) {
+    checkPrivateHost(url);
+  }
+}
+
+/**
+ * axios settings that apply the policy to each redirect and record it in hops
+ * Redirect targets that break the policy fail the request; host names are checked
+ * against private networks by the agents when they are resolved.
+ */
+export function redirectConfig(
+  url: string,
+  policy: RedirectPolicy,
+  hops: RedirectHop[],
+  blockPrivateNetworks = false
+): Pick<AxiosRequestConfig, 'maxRedirects' | 'beforeRedirect'> {
+  const host = new URL(url).hostname.toLowerCase();
+
+  return {
+    maxRedirects: policy.maxRedirects,
+    beforeRedirect: (options, response) => {
+      const target = options.href as string;
+      hops.push({ statusCode: response.statusCode, url: target });
+      log.info(`Redirect ${hops.length}: ${response.statusCode} → ${redactUrl(target)}`);
+
+      if (!policy.allowCrossHost && new URL(target).hostname.toLowerCase() !== host) {
+        throw new Error(`Refusing redirect from ${host} to another host: ${redactUrl(target)} (allow-cross-host-redirects is false)`);
+      }
+      checkRequestUrl(target, policy, blockPrivateNetworks);
+    },
+  };
+}
+
+/**
+ * Error for a redirect response that was not followed because max-redirects is 0
+ */
+export function unfollowedRedirectError(statusCode: number, location: string, baseUrl: string): Error {
+  return new Error(
+    `HTTP request redirected with status ${statusCode} to ${redactUrl(new URL(location, baseUrl).toString())}, ` +
+    'but max-redirects is 0'
+  );
+}
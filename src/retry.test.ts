@@ -0,0 +1,64 @@
+import { backoffDelay, isRetryableError, isRetryableStatus, parseRetryAfter, retryDelay, RetryPolicy } from './retry';
+
+const policy: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelay: 1000,
+  maxDelay: 5000,
+  jitter: 'none',
+  statusCodes: [429, 503],
+  errorCodes: ['ECONNRESET'],
+  maxRetryAfter: 60000,
+};
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2026-01-01T00:00:00Z');
+
+  it('reads delay seconds and HTTP-dates', () => {
+    expect(parseRetryAfter('120', now)).toBe(120000);
+    expect(parseRetryAfter(' 0 ', now)).toBe(0);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:30 GMT', now)).toBe(30000);
+    // A date in the past means no wait
+    expect(parseRetryAfter('Wed, 31 Dec 2025 23:00:00 GMT', now)).toBe(0);
+  });
+
+  it('returns undefined for missing or malformed values', () => {
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+    expect(parseRetryAfter('', now)).toBeUndefined();
+    expect(parseRetryAfter('-5', now)).toBeUndefined();
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+  });
+});
+
+describe('retryDelay', () => {
+  it('doubles the backoff per retry up to max-delay', () => {
+    expect([1, 2, 3, 4].map((retry) => retryDelay(policy, retry))).toEqual([1000, 2000, 4000, 5000]);
+  });
+
+  it('uses Retry-After instead, capped at retry-after-max', () => {
+    expect(retryDelay(policy, 1, 7000)).toBe(7000);
+    expect(retryDelay(policy, 1, 3600000)).toBe(60000);
+  });
+});
+
+describe('backoffDelay', () => {
+  it('keeps jittered delays within their bounds', () => {
+    for (let i = 0; i < 50; i++) {
+      const full = backoffDelay({ ...policy, jitter: 'full' }, 2);
+      const equal = backoffDelay({ ...policy, jitter: 'equal' }, 2);
+      expect(full).toBeGreaterThanOrEqual(0);
+      expect(full).toBeLessThanOrEqual(2000);
+      expect(equal).toBeGreaterThanOrEqual(1000);
+      expect(equal).toBeLessThanOrEqual(2000);
+    }
+  });
+});
+
+describe('isRetryableStatus and isRetryableError', () => {
+  it('only retry the configured statuses and error codes', () => {
+    expect(isRetryableStatus(policy, 503)).toBe(true);
+    expect(isRetryableStatus(policy, 500)).toBe(false);
+    expect(isRetryableError(policy, 'econnreset')).toBe(true);
+    expect(isRetryableError(policy, 'ENOTFOUND')).toBe(false);
+    expect(isRetryableError(policy, undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,154 @@
+import { ConfiguredRetryStrategy } from '@smithy/util-retry';
+
+export type RetryJitter = 'none' | 'full' | 'equal';
+
+/**
+ * Exponential backoff: baseDelay * 2^(retry - 1), capped at maxDelay, then jittered
+ */
+export interface BackoffOptions {
+  baseDelay: number; // Milliseconds before the first retry
+  maxDelay: number; // Milliseconds; cap on the backoff before jitter
+  jitter: RetryJitter; // full: random in [0, delay]; equal: random in [delay / 2, delay]
+}
+
+export interface RetryPolicy extends BackoffOptions {
+  maxAttempts: number; // Total attempts, including the first request
+  statusCodes: number[]; // HTTP statuses that are retried
+  errorCodes: string[]; // Network error codes that are retried (e.g., ECONNRESET)
+  maxRetryAfter: number; // Milliseconds; cap on the wait requested by a Retry-After header
+}
+
+export interface S3RetryOptions extends BackoffOptions {
+  maxAttempts: number; // Total attempts per S3 request, including the first one
+}
+
+const RETRY_JITTERS: RetryJitter[] = ['none', 'full', 'equal'];
+
+export const DEFAULT_RETRY_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+export const DEFAULT_RETRY_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN'];
+
+/**
+ * Validate retry jitter
+ */
+export function validateRetryJitter(jitter: string | undefined, name: string): RetryJitter {
+  if (!jitter) return 'full';
+
+  if (!RETRY_JITTERS.includes(jitter as RetryJitter)) {
+    throw new Error(`Invalid ${name}: ${jitter}. Must be one of: ${RETRY_JITTERS.join(', ')}`);
+  }
+
+  return jitter as RetryJitter;
+}
+
+/**
+ * Validate the backoff delays shared by the HTTP and S3 retry settings
+ */
+function validateBackoff(options: BackoffOptions & { maxAttempts: number }, prefix: string): void {
+  if (isNaN(options.maxAttempts) || options.maxAttempts < 1) {
+    throw new Error(`${prefix}max-attempts must be a positive integer`);
+  }
+  if (isNaN(options.baseDelay) || options.baseDelay < 0) {
+    throw new Error(`${prefix}base-delay must be a non-negative number of milliseconds`);
+  }
+  if (isNaN(options.maxDelay) || options.maxDelay < options.baseDelay) {
+    throw new Error(`${prefix}max-delay must be a number of milliseconds no smaller than ${prefix}base-delay`);
+  }
+}
+
+/**
+ * Validate the HTTP retry policy
+ */
+export function validateRetryPolicy(policy: RetryPolicy): RetryPolicy {
+  validateBackoff(policy, 'retry-');
+  for (const status of policy.statusCodes) {
+    if (isNaN(status) || status < 100 || status > 599) {
+      throw new Error(`Invalid retry-status-codes: ${status}. Must be HTTP status codes (100-599)`);
+    }
+  }
+  if (isNaN(policy.maxRetryAfter) || policy.maxRetryAfter < 0) {
+    throw new Error('retry-after-max must be a non-negative number of milliseconds');
+  }
+  return policy;
+}
+
+/**
+ * Validate the S3 retry settings
+ */
+export function validateS3RetryOptions(options: S3RetryOptions): S3RetryOptions {
+  validateBackoff(options, 's3-retry-');
+  return options;
+}
+
+/**
+ * Delay before the given retry (1 for the first retry)
+ */
+export function backoffDelay(options: BackoffOptions, retry: number): number {
+  const delay = Math.min(options.maxDelay, options.baseDelay * Math.pow(2, retry - 1));
+  switch (options.jitter) {
+    case 'full':
+      return Math.floor(Math.random() * delay);
+    case 'equal':
+      return Math.floor(delay / 2 + Math.random() * delay / 2);
+    case 'none':
+      return delay;
+  }
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP-date) into milliseconds
+ * Returns undefined when the header is missing or malformed
+ */
+export function parseRetryAfter(header?: string, now = Date.now()): number | undefined {
+  if (!header) return undefined;
+
+  const value = header.trim();
+  if (/^\d+$/.test(value)) {
+    return parseInt(value, 10) * 1000;
+  }
+
+  // HTTP-dates name the day and month; Date.parse would also read values like "-5" as a year
+  const date = /[a-z]/i.test(value) ? Date.parse(value) : NaN;
+  if (isNaN(date)) return undefined;
+
+  return Math.max(0, date - now);
+}
+
+/**
+ * Delay before the given retry of an HTTP request
+ * A Retry-After from the server replaces the backoff, up to maxRetryAfter
+ */
+export function retryDelay(policy: RetryPolicy, retry: number, retryAfter?: number): number {
+  if (retryAfter !== undefined) {
+    return Math.min(retryAfter, policy.maxRetryAfter);
+  }
+  return backoffDelay(policy, retry);
+}
+
+/**
+ * Check whether an HTTP status is retried by the policy
+ */
+export function isRetryableStatus(policy: RetryPolicy, status: number): boolean {
+  return policy.statusCodes.includes(status);
+}
+
+/**
+ * Check whether a network error code is retried by the policy
+ */
+export function isRetryableError(policy: RetryPolicy, code?: string): boolean {
+  return code !== undefined && policy.errorCodes.includes(code.toUpperCase());
+}
+
+/**
+ * Wait for the given number of milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Build the AWS SDK retry strategy for the S3 settings
+ * The SDK decides which errors are retryable (throttling, 5xx, timeouts); only the attempts and delays are configured
+ */
+export function createS3RetryStrategy(options: S3RetryOptions): ConfiguredRetryStrategy {
+  return new ConfiguredRetryStrategy(options.maxAttempts, (retry) => backoffDelay(options, retry));
+}
@@ -0,0 +1,126 @@
+import { S3Client, S3ClientConfig } from '@aws-sdk/client-s3';
+import { fromTemporaryCredentials } from '@aws-sdk/credential-providers';
+import { NodeHttpHandler } from '@smithy/node-http-handler';
+import { HttpProxyAgent } from 'http-proxy-agent';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import { log } from './logger';
+import { createS3RetryStrategy, S3RetryOptions } from './retry';
+import { redactUrl } from './redact';
+
+export interface S3ClientOptions {
+  endpoint?: string; // Custom endpoint for S3-compatible storage (MinIO, R2, Ceph, LocalStack)
+  region?: string;
+  forcePathStyle?: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  sessionToken?: string;
+  assumeRoleArn?: string;
+  assumeRoleExternalId?: string;
+  assumeRoleSessionName?: string;
+  retry?: S3RetryOptions; // SDK defaults (3 attempts) when unset
+  proxy?: string; // Proxy URL for S3 requests (the SDK does not read HTTPS_PROXY itself)
+}
+
+// Clients are shared across transfers so credentials (and assumed roles) are resolved once
+const clients = new Map<string, S3Client>();
+
+/**
+ * Validate S3 client options
+ */
+function validateClientOptions(options: S3ClientOptions): void {
+  if (Boolean(options.accessKeyId) !== Boolean(options.secretAccessKey)) {
+    throw new Error('aws-access-key-id and aws-secret-access-key must be set together');
+  }
+  if (options.sessionToken && !options.accessKeyId) {
+    throw new Error('aws-session-token requires aws-access-key-id and aws-secret-access-key');
+  }
+  if (options.assumeRoleExternalId && !options.assumeRoleArn) {
+    throw new Error('assume-role-external-id requires assume-role-arn');
+  }
+  if (options.endpoint) {
+    try {
+      new URL(options.endpoint);
+    } catch {
+      throw new Error(`Invalid s3-endpoint: ${options.endpoint}. Must be a full URL (e.g., http://localhost:9000)`);
+    }
+  }
+}
+
+/**
+ * Get an S3 client for the given options
+ * Without options, the client uses the default credential chain and region from the environment.
+ */
+export function getS3Client(options: S3ClientOptions = {}): S3Client {
+  const cacheKey = JSON.stringify(options);
+  const cached = clients.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  validateClientOptions(options);
+
+  // Disable request checksums for LocalStack compatibility (LocalStack has issues with CRC32)
+  const config: S3ClientConfig = {
+    requestChecksumCalculation: 'WHEN_REQUIRED',
+  };
+
+  if (options.endpoint) {
+    config.endpoint = options.endpoint;
+    log.info(`S3 endpoint: ${options.endpoint}`);
+  }
+
+  // S3-compatible endpoints still need a region for signing; us-east-1 is the common default
+  const region = options.region || (options.endpoint && !process.env.AWS_REGION && !process.env.AWS_DEFAULT_REGION
+    ? 'us-east-1'
+    : undefined);
+  if (region) {
+    config.region = region;
+    log.info(`S3 region: ${region}`);
+  }
+
+  if (options.forcePathStyle) {
+    config.forcePathStyle = true;
+    log.info('S3 addressing: path-style');
+  }
+
+  if (options.retry) {
+    config.retryStrategy = createS3RetryStrategy(options.retry);
+    log.info(`S3 retry: ${options.retry.maxAttempts} attempts, ${options.retry.baseDelay}-${options.retry.maxDelay}ms backoff (${options.retry.jitter} jitter)`);
+  }
+
+  if (options.proxy) {
+    config.requestHandler = new NodeHttpHandler({
+      httpAgent: new HttpProxyAgent(options.proxy),
+      httpsAgent: new HttpsProxyAgent(options.proxy),
+    });
+    log.info(`S3 proxy: ${redactUrl(options.proxy)}`);
+  }
+
+  const staticCredentials = options.accessKeyId && options.secretAccessKey
+    ? {
+      accessKeyId: options.accessKeyId,
+      secretAccessKey: options.secretAccessKey,
+      sessionToken: options.sessionToken || undefined,
+    }
+    : undefined;
+
+  if (options.assumeRoleArn) {
+    log.info(`Assuming role: ${options.assumeRoleArn}`);
+    config.credentials = fromTemporaryCredentials({
+      params: {
+        RoleArn: options.assumeRoleArn,
+        RoleSessionName: options.assumeRoleSessionName || 'url-to-s3',
+        ExternalId: options.assumeRoleExternalId,
+      },
+      masterCredentials: staticCredentials,
+      clientConfig: { region },
+    });
+  } else if (staticCredentials) {
+    log.info('S3 credentials: explicit access key');
+    config.credentials = staticCredentials;
+  }
+
+  const client = new S3Client(config);
+  clients.set(cacheKey, client);
+  return client;
+}
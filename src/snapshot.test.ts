@@ -0,0 +1,65 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readSharedOptions, readTransferOptions, silentLogger, urlToS3 } from './lib';
+import { withLogger } from './logger';
+
+describe('snapshot pruning', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'url-to-s3-test-'));
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Create a file under the snapshot prefix, last modified the given number of days ago
+   */
+  const seed = (key: string, daysAgo: number) => {
+    const filePath = path.join(dir, 'snaps', key);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, key);
+    const time = new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000);
+    fs.utimesSync(filePath, time, time);
+  };
+
+  const snapshot = (inputs: Record<string, string>) => {
+    const all: Record<string, string> = {
+      'url': 'data:application/json,{"n":1}',
+      'destination-url': `file://${dir}/snaps/`,
+      'snapshot': 'true',
+      'snapshot-key': '{date:YYYY-MM-DD}/feed.json',
+      ...inputs,
+    };
+    const input = (name: string) => all[name] ?? '';
+    return withLogger(silentLogger, () => urlToS3(readTransferOptions(input, readSharedOptions(input))));
+  };
+
+  it('deletes only the old snapshots, keeping unrelated objects and every latest pointer', async () => {
+    seed('2020-01-03/feed.json', 3);
+    seed('2020-01-02/feed.json', 20);
+    seed('2020-01-01/feed.json', 30);
+    seed('notes/readme.txt', 40);
+    seed('latest/feed.json', 50);
+    seed('latest.csv', 50);
+
+    const result = await snapshot({ 'snapshot-latest': 'copy', 'keep-last': '2', 'keep-days': '25' });
+
+    expect(result.deletedKeys?.map((key) => key.substring(key.indexOf('snaps/')))).toEqual(['snaps/2020-01-02/feed.json', 'snaps/2020-01-01/feed.json']);
+    for (const key of ['2020-01-03/feed.json', 'notes/readme.txt', 'latest/feed.json', 'latest.csv', 'latest.json']) {
+      expect(fs.existsSync(path.join(dir, 'snaps', key))).toBe(true);
+    }
+    expect(fs.existsSync(path.join(dir, 'snaps', '2020-01-01'))).toBe(false);
+  });
+
+  it('only reports what would be deleted in a dry run', async () => {
+    seed('2020-01-01/feed.json', 30);
+
+    const result = await snapshot({ 'keep-days': '7', 'prune-dry-run': 'true' });
+
+    expect(result.deletedKeys).toEqual([expect.stringMatching(/snaps\/2020-01-01\/feed\.json$/)]);
+    expect(fs.existsSync(path.join(dir, 'snaps', '2020-01-01', 'feed.json'))).toBe(true);
+  });
+});
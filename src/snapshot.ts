@@ -0,0 +1,239 @@
+import * as path from 'path';
+import { Readable } from 'stream';
+import { log } from './logger';
+import { getStorageBackend, writeObject } from './storage';
+import { hasKeyPlaceholders, keyTemplatePattern } from './key-template';
+import { redactUrl } from './redact';
+import type { TransferOptions, TransferResult } from './transfer';
+
+export type SnapshotLatest = 'none' | 'copy' | 'manifest';
+
+export interface SnapshotOptions {
+  key: string; // Key template of each snapshot, under the s3-key prefix
+  latest: SnapshotLatest; // Stable pointer to the newest snapshot
+  latestKey?: string; // Pointer key under the prefix (latest.<ext> for copy, latest.json for manifest)
+  keepLast?: number; // Snapshots to keep, including the new one
+  keepDays?: number; // Delete snapshots older than this many days
+  dryRun: boolean; // Report what pruning would delete without deleting it
+}
+
+/**
+ * What the snapshot mode adds to the transfer result
+ */
+export interface SnapshotResult {
+  latestUrl?: string;
+  deletedKeys: string[]; // Keys deleted by pruning (or that would be, in a dry run)
+}
+
+/**
+ * Pointer written with snapshot-latest: manifest
+ */
+export interface LatestManifest {
+  key: string;
+  url: string;
+  etag: string;
+  versionId?: string;
+  sha256?: string;
+  size: number;
+  source: string;
+  createdAt: string;
+}
+
+export const DEFAULT_SNAPSHOT_KEY = '{date:YYYY-MM-DD}/{filename}';
+
+const SNAPSHOT_LATEST_MODES: SnapshotLatest[] = ['none', 'copy', 'manifest'];
+
+// Folder that content-hash keys are staged in (see transfer.ts); never a snapshot
+const STAGING_FOLDER = '.url-to-s3-staging';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Validate snapshot options
+ */
+export function validateSnapshotOptions(options: SnapshotOptions): SnapshotOptions {
+  if (!SNAPSHOT_LATEST_MODES.includes(options.latest)) {
+    throw new Error(`Invalid snapshot-latest: ${options.latest}. Must be one of: ${SNAPSHOT_LATEST_MODES.join(', ')}`);
+  }
+  // The first path segment names the snapshot, so it has to change between runs
+  if (!hasKeyPlaceholders(options.key.split('/')[0])) {
+    throw new Error(`Invalid snapshot-key: ${options.key}. The first path segment must contain a placeholder such as {date} or {timestamp}`);
+  }
+  if (options.key.startsWith('/')) {
+    throw new Error(`Invalid snapshot-key: ${options.key}. It is relative to the s3-key prefix and cannot start with /`);
+  }
+  if (options.keepLast !== undefined && (!Number.isInteger(options.keepLast) || options.keepLast < 1)) {
+    throw new Error(`Invalid keep-last: ${options.keepLast}. Must be a positive integer`);
+  }
+  if (options.keepDays !== undefined && (isNaN(options.keepDays) || options.keepDays <= 0)) {
+    throw new Error(`Invalid keep-days: ${options.keepDays}. Must be a positive number of days`);
+  }
+  return options;
+}
+
+/**
+ * The snapshot prefix (s3-key) with a trailing slash, or empty for the bucket root
+ */
+export function snapshotPrefix(key: string): string {
+  return !key || key.endsWith('/') ? key : `${key}/`;
+}
+
+/**
+ * The snapshot an object belongs to: the first path segment under the prefix
+ * (prefix/2026-01-01/feed.json → 2026-01-01), or the whole name for flat keys
+ */
+function snapshotId(prefix: string, key: string): string {
+  return key.substring(prefix.length).split('/')[0];
+}
+
+/**
+ * Check whether a snapshot ID is a latest pointer: the configured one, or the name
+ * another snapshot-latest setting writes (latest, latest.<ext>, latest.json or a latest/ folder)
+ */
+function isLatestPointer(id: string, latestId: string): boolean {
+  return id === latestId || id === 'latest' || id.startsWith('latest.');
+}
+
+/**
+ * Key of the latest pointer under the prefix
+ */
+function latestKeyFor(prefix: string, snapshot: SnapshotOptions, snapshotKey: string): string {
+  if (snapshot.latestKey) {
+    return `${prefix}${snapshot.latestKey}`;
+  }
+  if (snapshot.latest === 'manifest') {
+    return `${prefix}latest.json`;
+  }
+  return `${prefix}latest${path.posix.extname(snapshotKey)}`;
+}
+
+/**
+ * Point latest at the new snapshot, with a copy of it or a JSON manifest naming it
+ */
+async function updateLatest(
+  options: TransferOptions,
+  snapshot: SnapshotOptions,
+  latestKey: string,
+  result: TransferResult
+): Promise<string> {
+  const key = result.key as string;
+  // The pointer is replaced on every run, so retention and preconditions do not apply to it
+  const pointerOptions = { ...options.upload, key: latestKey, objectLock: undefined, ifMatch: undefined };
+
+  if (snapshot.latest === 'copy') {
+    return (await getStorageBackend(options.upload.storage).copy(pointerOptions, key)).s3Url;
+  }
+
+  const manifest: LatestManifest = {
+    key,
+    url: result.s3Url,
+    etag: result.etag,
+    versionId: result.versionId,
+    sha256: result.checksums?.sha256,
+    size: result.storedBytes ?? result.bytesTransferred,
+    source: redactUrl(options.download.url),
+    createdAt: new Date().toISOString(),
+  };
+  const body = Buffer.from(`${JSON.stringify(manifest, null, 2)}\n`);
+  log.info(`Writing latest manifest for ${result.s3Url}`);
+  const written = await writeObject({
+    ...pointerOptions,
+    stream: Readable.from([body]),
+    contentLengthHint: body.length,
+    contentType: 'application/json',
+    metadata: undefined,
+  });
+  return written.s3Url;
+}
+
+/**
+ * Delete the snapshots beyond keep-last or older than keep-days
+ * The new snapshot and the latest pointer are never deleted; the new snapshot counts toward keep-last.
+ * Only objects named like the first segment of snapshot-key are snapshots; anything else under the prefix is kept.
+ */
+async function pruneSnapshots(
+  options: TransferOptions,
+  snapshot: SnapshotOptions,
+  prefix: string,
+  snapshotKey: string,
+  latestKey: string
+): Promise<string[]> {
+  const backend = getStorageBackend(options.upload.storage);
+  const current = snapshotId(prefix, snapshotKey);
+  const latestId = snapshotId(prefix, latestKey);
+  const snapshotPattern = keyTemplatePattern(snapshot.key.split('/')[0]);
+
+  const snapshots = new Map<string, { keys: string[]; lastModified: number }>();
+  let ignored = 0;
+  for (const object of await backend.list(options.upload, prefix)) {
+    const id = snapshotId(prefix, object.key);
+    if (object.key === latestKey || id === current || id === STAGING_FOLDER) continue;
+    if (isLatestPointer(id, latestId) || !snapshotPattern.test(id)) {
+      ignored++;
+      continue;
+    }
+    const entry = snapshots.get(id) ?? { keys: [], lastModified: 0 };
+    entry.keys.push(object.key);
+    entry.lastModified = Math.max(entry.lastModified, object.lastModified.getTime());
+    snapshots.set(id, entry);
+  }
+
+  // Newest first; a snapshot is as old as its newest object
+  const older = [...snapshots.entries()].sort(([idA, a], [idB, b]) => b.lastModified - a.lastModified || idB.localeCompare(idA));
+  const cutoff = snapshot.keepDays !== undefined ? Date.now() - snapshot.keepDays * DAY_MS : undefined;
+  const expired = older.filter(([, entry], index) =>
+    (snapshot.keepLast !== undefined && index + 1 >= snapshot.keepLast) ||
+    (cutoff !== undefined && entry.lastModified < cutoff)
+  );
+
+  log.info(
+    `Found ${older.length + 1} snapshots under ${backend.url(options.upload.bucket, prefix)}, ` +
+    `${expired.length} to prune (keep-last: ${snapshot.keepLast ?? 'unset'}, keep-days: ${snapshot.keepDays ?? 'unset'})`
+  );
+  if (ignored > 0) {
+    log.info(`Ignoring ${ignored} objects that are not named like snapshot-key ${snapshot.key}`);
+  }
+  for (const [id, entry] of expired) {
+    log.info(`${snapshot.dryRun ? 'Would delete' : 'Deleting'} snapshot ${id} (${entry.keys.length} objects, ${new Date(entry.lastModified).toISOString()})`);
+  }
+
+  const deletedKeys = expired.flatMap(([, entry]) => entry.keys);
+  if (!snapshot.dryRun && deletedKeys.length > 0) {
+    await backend.delete(options.upload, deletedKeys);
+    log.info(`Deleted ${deletedKeys.length} objects`);
+  }
+  return deletedKeys;
+}
+
+/**
+ * Update the latest pointer and prune old snapshots after a snapshot was written
+ */
+export async function finishSnapshot(
+  options: TransferOptions,
+  snapshot: SnapshotOptions,
+  prefix: string,
+  result: TransferResult
+): Promise<SnapshotResult> {
+  const snapshotKey = result.key as string;
+  const latestKey = latestKeyFor(prefix, snapshot, snapshotKey);
+
+  let latestUrl: string | undefined;
+  if (snapshot.latest !== 'none') {
+    try {
+      latestUrl = await updateLatest(options, snapshot, latestKey, result);
+    } catch (error) {
+      throw new Error(`Snapshot uploaded, but updating the latest pointer failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  let deletedKeys: string[] = [];
+  if (snapshot.keepLast !== undefined || snapshot.keepDays !== undefined) {
+    try {
+      deletedKeys = await pruneSnapshots(options, snapshot, prefix, snapshotKey, latestKey);
+    } catch (error) {
+      throw new Error(`Snapshot uploaded, but pruning old snapshots failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return { latestUrl, deletedKeys };
+}
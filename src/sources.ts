@@ -0,0 +1,510 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { createHash } from 'crypto';
+import { PassThrough, Readable } from 'stream';
+import { GetObjectCommand, GetObjectCommandOutput } from '@aws-sdk/client-s3';
+import { Client as FtpClient, FTPError } from 'basic-ftp';
+import { Client as SshClient, ConnectConfig, SFTPWrapper, Stats as SftpStats } from 'ssh2';
+import { log } from './logger';
+import { getS3Client, S3ClientOptions } from './s3-client';
+import { assertPublicHost, getTlsOptions, readCredential } from './network';
+import { isRetryableError, retryDelay, sleep } from './retry';
+import { redactUrl, registerSecret } from './redact';
+import type { DownloadOptions } from './download';
+import type { RedirectHop } from './redirect';
+
+/**
+ * Settings for the non-HTTP sources
+ */
+export interface SourceOptions {
+  s3?: S3ClientOptions; // Client for s3:// URLs (the destination's client when unset)
+  sftpPrivateKey?: string; // Private key for sftp:// URLs, inline or file path
+  sftpPassphrase?: string;
+  sftpHostFingerprint?: string; // Expected host key (SHA256:... as printed by ssh-keygen -l), or 'none' to skip the check
+}
+
+/**
+ * What a source returns before the validation gates and byte counting
+ */
+export interface SourceResponse {
+  statusCode: number; // HTTP status; 200, or 304 when not modified, for the other protocols
+  finalUrl: string;
+  redirects?: RedirectHop[]; // HTTP only
+  contentLength: number; // 0 when unknown
+  contentType?: string;
+  contentEncoding?: string;
+  contentDisposition?: string;
+  etag?: string;
+  lastModified?: string;
+  responseHeaders: Record<string, string>; // Lowercase names; the other protocols report their metadata as headers
+  attempts: number;
+  body: Readable; // Empty on 304
+}
+
+/**
+ * Opens the content of one URL scheme
+ */
+export type SourceAdapter = (options: DownloadOptions) => Promise<SourceResponse>;
+
+// RFC 2397: data:[<media type>][;base64],<data>
+const DATA_URL_PATTERN = /^data:([^,]*?)(;base64)?,(.*)$/is;
+const DATA_URL_DEFAULT_TYPE = 'text/plain;charset=US-ASCII';
+
+/**
+ * Warn about (or reject) HTTP request settings that a non-HTTP source cannot use
+ */
+function checkSourceOptions(options: DownloadOptions, protocol: string): void {
+  if (options.method.toUpperCase() !== 'GET') {
+    throw new Error(`Method ${options.method} is not supported for ${protocol} URLs, only GET`);
+  }
+  const ignored = [
+    options.headers && Object.keys(options.headers).length > 0 && 'headers',
+    options.data && 'post-data',
+    options.rangedDownload && 'ranged-download',
+  ].filter(Boolean);
+  if (ignored.length > 0) {
+    log.warning(`Ignored for ${protocol} URLs: ${ignored.join(', ')}`);
+  }
+}
+
+/**
+ * Response headers for a source without HTTP headers, from the metadata it has
+ */
+function sourceHeaders(fields: Record<string, string | number | undefined>): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(fields)) {
+    if (value !== undefined && value !== '') {
+      headers[name] = String(value);
+    }
+  }
+  return headers;
+}
+
+/**
+ * Whether the stored validators (if-changed) still match, like If-None-Match / If-Modified-Since
+ */
+function isNotModified(options: DownloadOptions, etag?: string, lastModified?: Date): boolean {
+  if (options.ifNoneMatch) {
+    return options.ifNoneMatch === etag;
+  }
+  if (options.ifModifiedSince && lastModified) {
+    // HTTP dates have one-second precision
+    return Math.floor(lastModified.getTime() / 1000) <= Math.floor(Date.parse(options.ifModifiedSince) / 1000);
+  }
+  return false;
+}
+
+/**
+ * 304 response for a source that has not changed since the previous fetch
+ */
+function notModifiedResponse(url: string, attempts: number, etag?: string, lastModified?: string): SourceResponse {
+  return {
+    statusCode: 304,
+    finalUrl: url,
+    contentLength: 0,
+    etag,
+    lastModified,
+    responseHeaders: sourceHeaders({ 'etag': etag, 'last-modified': lastModified }),
+    attempts,
+    body: Readable.from([]),
+  };
+}
+
+/**
+ * Open a connection, retrying network errors with the source retry policy
+ */
+async function connectWithRetry<T>(
+  options: DownloadOptions,
+  connect: () => Promise<T>
+): Promise<{ connection: T; attempts: number }> {
+  const retry = options.retry;
+
+  for (let attempts = 1; ; attempts++) {
+    try {
+      return { connection: await connect(), attempts };
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      const message = `Failed to connect to ${redactUrl(options.url)}: ${error instanceof Error ? error.message : error}`;
+      if (!retry || attempts >= retry.maxAttempts || typeof code !== 'string' || !isRetryableError(retry, code)) {
+        throw new Error(attempts > 1 ? `${message} after ${attempts} attempts` : message);
+      }
+
+      const delay = retryDelay(retry, attempts);
+      log.warning(`Connection failed (${code}), retry ${attempts}/${retry.maxAttempts - 1} after ${delay}ms...`);
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Decode an S3 object stored with a Content-Encoding, as axios does for HTTP responses
+ */
+function decodeBody(body: Readable, contentEncoding?: string): Readable {
+  const decoders: Record<string, () => zlib.Gunzip | zlib.Inflate | zlib.BrotliDecompress> = {
+    'gzip': zlib.createGunzip,
+    'x-gzip': zlib.createGunzip,
+    'deflate': zlib.createInflate,
+    'br': zlib.createBrotliDecompress,
+  };
+  const createDecoder = contentEncoding ? decoders[contentEncoding.toLowerCase()] : undefined;
+  if (!createDecoder) {
+    return body;
+  }
+
+  const decoder = createDecoder();
+  body.on('error', (error: Error) => decoder.destroy(error));
+  return body.pipe(decoder);
+}
+
+/**
+ * s3://bucket/key: read an object with the source S3 client (for example another account's)
+ */
+export const fetchS3Object: SourceAdapter = async (options) => {
+  checkSourceOptions(options, 's3://');
+  const match = /^s3:\/\/([^/]+)\/(.+)$/i.exec(options.url);
+  if (!match) {
+    throw new Error(`Invalid url: ${redactUrl(options.url)}. S3 URLs must be s3://bucket/key`);
+  }
+  const [, bucket, key] = match;
+
+  // The SDK connects to a custom endpoint (MinIO, LocalStack) itself, so check its host up front
+  const endpoint = options.source?.s3?.endpoint;
+  if (endpoint && options.network?.blockPrivateNetworks) {
+    await assertPublicHost(new URL(endpoint).hostname.replace(/^\[|\]$/g, ''));
+  }
+
+  let response: GetObjectCommandOutput;
+  try {
+    response = await getS3Client(options.source?.s3).send(new GetObjectCommand({
+      Bucket: bucket,
+      Key: key,
+      IfNoneMatch: options.ifNoneMatch,
+      IfModifiedSince: options.ifModifiedSince ? new Date(options.ifModifiedSince) : undefined,
+    }));
+  } catch (error) {
+    const metadata = (error as { $metadata?: { httpStatusCode?: number; attempts?: number } }).$metadata;
+    if (metadata?.httpStatusCode === 304) {
+      return notModifiedResponse(options.url, metadata.attempts ?? 1, options.ifNoneMatch, options.ifModifiedSince);
+    }
+    throw new Error(`Failed to read ${redactUrl(options.url)}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const body = response.Body as Readable;
+  const lastModified = response.LastModified?.toUTCString();
+  return {
+    statusCode: response.$metadata.httpStatusCode ?? 200,
+    finalUrl: options.url,
+    contentLength: response.ContentLength ?? 0,
+    contentType: response.ContentType,
+    contentEncoding: response.ContentEncoding,
+    contentDisposition: response.ContentDisposition,
+    etag: response.ETag,
+    lastModified,
+    responseHeaders: sourceHeaders({
+      'content-type': response.ContentType,
+      'content-length': response.ContentLength,
+      'content-encoding': response.ContentEncoding,
+      'content-disposition': response.ContentDisposition,
+      'cache-control': response.CacheControl,
+      'etag': response.ETag,
+      'last-modified': lastModified,
+      'x-amz-version-id': response.VersionId,
+    }),
+    attempts: response.$metadata.attempts ?? 1,
+    body: options.keepEncoding ? body : decodeBody(body, response.ContentEncoding),
+  };
+};
+
+/**
+ * Path of a file:// URL; relative paths (file://dist/app.zip) are resolved in the workspace
+ */
+function localSourcePath(url: string): string {
+  const filePath = decodeURI(url.substring('file://'.length));
+  // file:///C:/dir on Windows
+  const normalized = /^\/[a-z]:/i.test(filePath) ? filePath.substring(1) : filePath;
+  return path.resolve(process.env.GITHUB_WORKSPACE || process.cwd(), normalized);
+}
+
+/**
+ * file://path: read a file on the runner, such as the output of an earlier step
+ */
+export const readLocalFile: SourceAdapter = async (options) => {
+  checkSourceOptions(options, 'file://');
+  const filePath = localSourcePath(options.url);
+
+  let stat: fs.Stats;
+  try {
+    stat = await fs.promises.stat(filePath);
+  } catch (error) {
+    throw new Error(`Failed to read ${options.url}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!stat.isFile()) {
+    throw new Error(`Failed to read ${options.url}: not a regular file`);
+  }
+
+  // Size and modification time, like the ETag of a static file server
+  const etag = `"${stat.size.toString(16)}-${Math.floor(stat.mtimeMs).toString(16)}"`;
+  const lastModified = stat.mtime.toUTCString();
+  if (isNotModified(options, etag, stat.mtime)) {
+    return notModifiedResponse(options.url, 1, etag, lastModified);
+  }
+
+  return {
+    statusCode: 200,
+    finalUrl: options.url,
+    contentLength: stat.size,
+    etag,
+    lastModified,
+    responseHeaders: sourceHeaders({ 'content-length': stat.size, 'etag': etag, 'last-modified': lastModified }),
+    attempts: 1,
+    body: fs.createReadStream(filePath),
+  };
+};
+
+/**
+ * Decode %XX escapes into bytes (decodeURIComponent fails on bytes that are not UTF-8)
+ */
+function percentDecode(text: string): Buffer {
+  return Buffer.concat(
+    text.split(/(%[0-9a-f]{2})/i).map((part) =>
+      /^%[0-9a-f]{2}$/i.test(part) ? Buffer.from([parseInt(part.substring(1), 16)]) : Buffer.from(part, 'utf8')
+    )
+  );
+}
+
+/**
+ * data: URI: content embedded in the URL itself, for small fixtures
+ */
+export const decodeDataUrl: SourceAdapter = async (options) => {
+  checkSourceOptions(options, 'data:');
+  const match = DATA_URL_PATTERN.exec(options.url);
+  if (!match) {
+    throw new Error('Invalid url: data: URLs must be data:[<media type>][;base64],<data>');
+  }
+
+  const content = match[2] ? Buffer.from(match[3], 'base64') : percentDecode(match[3]);
+  const contentType = match[1] || DATA_URL_DEFAULT_TYPE;
+  const etag = `"${createHash('sha256').update(content).digest('hex')}"`;
+  if (isNotModified(options, etag)) {
+    return notModifiedResponse(options.url, 1, etag);
+  }
+
+  return {
+    statusCode: 200,
+    finalUrl: options.url,
+    contentLength: content.length,
+    contentType,
+    etag,
+    responseHeaders: sourceHeaders({ 'content-type': contentType, 'content-length': content.length, 'etag': etag }),
+    attempts: 1,
+    body: Readable.from([content]),
+  };
+};
+
+/**
+ * User name and password from the URL, falling back to auth-username / auth-password
+ */
+function urlCredentials(url: URL, options: DownloadOptions): { user?: string; password?: string } {
+  const user = decodeURIComponent(url.username) || options.authUsername || undefined;
+  const password = decodeURIComponent(url.password) || options.authPassword || undefined;
+  registerSecret(password);
+  return { user, password };
+}
+
+/**
+ * ftp:// and ftps:// (explicit TLS): download a file from an FTP server
+ * Anonymous login is used when no credentials are given.
+ */
+export const fetchFtp: SourceAdapter = async (options) => {
+  const url = new URL(options.url);
+  checkSourceOptions(options, `${url.protocol}//`);
+  const secure = url.protocol === 'ftps:';
+  const remotePath = decodeURIComponent(url.pathname);
+  const { user, password } = urlCredentials(url, options);
+
+  const { connection: client, attempts } = await connectWithRetry(options, async () => {
+    const ftp = new FtpClient(options.timeout || 900000);
+    try {
+      await ftp.access({
+        host: url.hostname,
+        port: url.port ? parseInt(url.port, 10) : 21,
+        user: user ?? 'anonymous',
+        password: password ?? (user ? '' : 'anonymous@'),
+        secure,
+        secureOptions: secure ? getTlsOptions(options.network ?? {}) : undefined,
+      });
+      return ftp;
+    } catch (error) {
+      ftp.close();
+      throw error;
+    }
+  });
+
+  try {
+    let size = 0;
+    try {
+      size = await client.size(remotePath);
+    } catch (error) {
+      // 550: no such file; other errors mean the server does not support SIZE
+      if (error instanceof FTPError && error.code === 550) {
+        throw new Error(`Failed to read ${redactUrl(options.url)}: ${error.message}`);
+      }
+    }
+    const modified = await client.lastMod(remotePath).catch(() => undefined);
+    const lastModified = modified?.toUTCString();
+
+    if (isNotModified(options, undefined, modified)) {
+      client.close();
+      return notModifiedResponse(options.url, attempts, undefined, lastModified);
+    }
+
+    // basic-ftp ends the stream it writes to even when the transfer fails,
+    // so it writes to a sink and the body only ends once the transfer succeeded
+    const sink = new PassThrough();
+    const body = new PassThrough();
+    sink.pipe(body, { end: false });
+    client.downloadTo(sink, remotePath).then(
+      () => {
+        client.close();
+        body.end();
+      },
+      (error: Error) => {
+        client.close();
+        body.destroy(new Error(`FTP download failed: ${error.message}`));
+      }
+    );
+
+    return {
+      statusCode: 200,
+      finalUrl: options.url,
+      contentLength: size,
+      lastModified,
+      responseHeaders: sourceHeaders({ 'content-length': size || undefined, 'last-modified': lastModified }),
+      attempts,
+      body,
+    };
+  } catch (error) {
+    client.close();
+    throw error;
+  }
+};
+
+/**
+ * SHA256 fingerprint of a host key, in the format printed by ssh-keygen -l
+ */
+function hostKeyFingerprint(key: Buffer): string {
+  return `SHA256:${createHash('sha256').update(key).digest('base64').replace(/=+$/, '')}`;
+}
+
+/**
+ * Connect to an SSH server and open an SFTP session
+ */
+function openSftp(config: ConnectConfig): Promise<{ ssh: SshClient; sftp: SFTPWrapper }> {
+  return new Promise((resolve, reject) => {
+    const ssh = new SshClient();
+    ssh.once('error', (error) => {
+      ssh.end();
+      reject(error);
+    });
+    ssh.once('ready', () => {
+      ssh.sftp((error, sftp) => {
+        if (error) {
+          ssh.end();
+          reject(error);
+          return;
+        }
+        resolve({ ssh, sftp });
+      });
+    });
+    ssh.connect(config);
+  });
+}
+
+/**
+ * sftp://host/path: download a file over SFTP with a password or private key
+ * Paths are absolute; sftp://host/~/file is relative to the home directory.
+ */
+export const fetchSftp: SourceAdapter = async (options) => {
+  checkSourceOptions(options, 'sftp://');
+  const url = new URL(options.url);
+  const pathname = decodeURIComponent(url.pathname);
+  const remotePath = pathname.startsWith('/~/') ? pathname.substring(3) : pathname;
+  const { user, password } = urlCredentials(url, options);
+  const source = options.source ?? {};
+  const privateKey = source.sftpPrivateKey ? readCredential(source.sftpPrivateKey, 'sftp-private-key') : undefined;
+
+  if (!user) {
+    throw new Error('sftp:// URLs need a user name, in the URL or auth-username');
+  }
+  if (!password && !privateKey) {
+    throw new Error('sftp:// URLs need a password (in the URL or auth-password) or sftp-private-key');
+  }
+
+  // Skipping host key verification is an explicit choice, never the default
+  if (!source.sftpHostFingerprint) {
+    throw new Error(
+      'sftp:// URLs need sftp-host-fingerprint (SHA256:..., as printed by ssh-keygen -l), ' +
+      'or sftp-host-fingerprint: none to accept any host key'
+    );
+  }
+  const expectedFingerprint = source.sftpHostFingerprint === 'none' ? undefined : source.sftpHostFingerprint;
+  if (!expectedFingerprint) {
+    log.warning('sftp-host-fingerprint is none, the server host key is not verified');
+  }
+
+  const { connection, attempts } = await connectWithRetry(options, () => openSftp({
+    host: url.hostname,
+    port: url.port ? parseInt(url.port, 10) : 22,
+    username: user,
+    password,
+    privateKey,
+    passphrase: source.sftpPassphrase,
+    readyTimeout: options.timeout || 900000,
+    hostVerifier: (key: Buffer) => {
+      if (!expectedFingerprint) {
+        return true;
+      }
+      const fingerprint = hostKeyFingerprint(key);
+      if (fingerprint !== expectedFingerprint) {
+        log.error(`Host key mismatch: expected ${expectedFingerprint}, got ${fingerprint}`);
+        return false;
+      }
+      return true;
+    },
+  }));
+  const { ssh, sftp } = connection;
+
+  try {
+    const stat = await new Promise<SftpStats>((resolve, reject) => {
+      sftp.stat(remotePath, (error, stats) => (error ? reject(error) : resolve(stats)));
+    }).catch((error: Error) => {
+      throw new Error(`Failed to read ${redactUrl(options.url)}: ${error.message}`);
+    });
+
+    const modified = new Date(stat.mtime * 1000);
+    const etag = `"${stat.size.toString(16)}-${stat.mtime.toString(16)}"`;
+    const lastModified = modified.toUTCString();
+    if (isNotModified(options, etag, modified)) {
+      ssh.end();
+      return notModifiedResponse(options.url, attempts, etag, lastModified);
+    }
+
+    const body = sftp.createReadStream(remotePath);
+    body.once('close', () => ssh.end());
+
+    return {
+      statusCode: 200,
+      finalUrl: options.url,
+      contentLength: stat.size,
+      etag,
+      lastModified,
+      responseHeaders: sourceHeaders({ 'content-length': stat.size, 'etag': etag, 'last-modified': lastModified }),
+      attempts,
+      body,
+    };
+  } catch (error) {
+    ssh.end();
+    throw error;
+  }
+};
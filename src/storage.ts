@@ -0,0 +1,121 @@
+import { getS3Client } from './s3-client';
+import {
+  copyObject,
+  deleteObjects,
+  headObject,
+  listObjects,
+  promoteStagedObject,
+  StoredObject,
+  uploadStreamToS3,
+  UploadOptions,
+  UploadResult,
+} from './upload';
+import { localStorageBackend, resolveLocalLocation } from './local-storage';
+
+export type StorageType = 's3' | 'file';
+
+/**
+ * Where an object is stored: an S3 bucket and key, or a root directory and relative path
+ */
+export interface StorageLocation {
+  storage: StorageType;
+  bucket: string; // S3 bucket, or the root directory for file
+  key: string;
+}
+
+/**
+ * What the existence and change checks need to know about a stored object
+ */
+export interface ObjectHead {
+  etag: string;
+  metadata: Record<string, string>;
+  checksumSha256?: string; // Hex full-object SHA-256 checksum, when requested and S3 has one
+}
+
+export type ObjectRef = Pick<UploadOptions, 'storage' | 'bucket' | 'key' | 'bucketOwner' | 'encryption' | 'clientOptions'>;
+
+export type { StoredObject } from './upload';
+
+/**
+ * A destination the transfers write through
+ */
+export interface StorageBackend {
+  write(options: UploadOptions): Promise<UploadResult>;
+  // Move a staged object to its final key (content-hash keys)
+  promote(options: Omit<UploadOptions, 'stream'>, stagingKey: string): Promise<UploadResult>;
+  // Copy an object to options.key, with its metadata and tags
+  copy(options: Omit<UploadOptions, 'stream'>, sourceKey: string): Promise<UploadResult>;
+  // Undefined when the object does not exist
+  head(object: ObjectRef, options?: { checksum?: boolean }): Promise<ObjectHead | undefined>;
+  list(location: Omit<ObjectRef, 'key'>, prefix: string): Promise<StoredObject[]>;
+  delete(location: Omit<ObjectRef, 'key'>, keys: string[]): Promise<void>;
+  url(bucket: string, key: string): string;
+}
+
+const s3Backend: StorageBackend = {
+  write: uploadStreamToS3,
+  promote: promoteStagedObject,
+  copy: copyObject,
+  head: async (object, options) => {
+    const head = await headObject(getS3Client(object.clientOptions), object.bucket, object.key, object.encryption, options?.checksum);
+    if (!head) {
+      return undefined;
+    }
+    // Multipart checksums (COMPOSITE, "…-N") are checksums of the part checksums, not of the bytes
+    const checksum = head.ChecksumType !== 'COMPOSITE' && head.ChecksumSHA256 && !head.ChecksumSHA256.includes('-')
+      ? Buffer.from(head.ChecksumSHA256, 'base64').toString('hex')
+      : undefined;
+    return { etag: head.ETag || '', metadata: head.Metadata || {}, checksumSha256: checksum };
+  },
+  list: listObjects,
+  delete: deleteObjects,
+  url: (bucket, key) => `s3://${bucket}/${key}`,
+};
+
+const STORAGE_SCHEMES: Record<string, StorageType> = {
+  's3:': 's3',
+  'file:': 'file',
+};
+
+/**
+ * Get the backend for a storage type (S3 when unset)
+ */
+export function getStorageBackend(storage: StorageType = 's3'): StorageBackend {
+  return storage === 'file' ? localStorageBackend : s3Backend;
+}
+
+/**
+ * Write an object through its backend
+ */
+export function writeObject(options: UploadOptions): Promise<UploadResult> {
+  return getStorageBackend(options.storage).write(options);
+}
+
+/**
+ * URL of an object: s3://bucket/key or file:///path
+ */
+export function objectUrl(object: Pick<UploadOptions, 'storage' | 'bucket' | 'key'>): string {
+  return getStorageBackend(object.storage).url(object.bucket, object.key);
+}
+
+/**
+ * Parse a destination URL: s3://bucket/key, or file://path (relative paths are resolved in the workspace)
+ */
+export function parseDestinationUrl(url: string, name = 'destination-url'): StorageLocation {
+  const match = /^([a-z][a-z0-9+.-]*:)\/\/(.*)$/i.exec(url);
+  const storage = match ? STORAGE_SCHEMES[match[1].toLowerCase()] : undefined;
+  if (!match || !storage) {
+    throw new Error(`Invalid ${name}: ${url}. Must be one of: ${Object.keys(STORAGE_SCHEMES).map((scheme) => `${scheme}//`).join(', ')}`);
+  }
+
+  if (storage === 'file') {
+    return resolveLocalLocation(decodeURI(match[2]));
+  }
+
+  const slash = match[2].indexOf('/');
+  const bucket = slash === -1 ? match[2] : match[2].substring(0, slash);
+  if (!bucket) {
+    throw new Error(`Invalid ${name}: ${url}. The S3 URL has no bucket`);
+  }
+  return { storage, bucket, key: slash === -1 ? '' : match[2].substring(slash + 1) };
+}
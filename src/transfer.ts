@@ -0,0 +1,451 @@
+import { randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import { log } from './logger';
+import { paginatedTransfer, PaginationOptions } from './paginate';
+import { extractTransfer, ExtractOptions } from './extract';
+import { destinationUploadOptions, DestinationResult, FanOutOptions, uploadToDestinations } from './fanout';
+import { buildProvenanceRecord, ProvenanceFacts, ProvenanceOptions, writeProvenance } from './provenance';
+import { finishSnapshot, snapshotPrefix, SnapshotOptions } from './snapshot';
+import { CONTENT_SHA256_METADATA, stageContent, StagedContent, storedSha256 } from './dedupe';
+import { waitUntilReady, WaitOptions } from './wait';
+import { hasKeyPlaceholders, KeyTemplateContext, requiresContentHash, resolveKeyTemplate } from './key-template';
+import { downloadAsStream, DownloadOptions } from './download';
+import type { RedirectHop } from './redirect';
+import { Checksums } from './checksum';
+import { contentEncodingFor, contentTypeAfter, CountingStream, createCodec, TransformMode } from './codec';
+import { UploadOptions, UploadResult } from './upload';
+import { getStorageBackend, writeObject } from './storage';
+
+export interface TransferOptions {
+  download: DownloadOptions;
+  // contentType here is an override; the response Content-Type is used when it is not set
+  upload: Omit<UploadOptions, 'stream' | 'contentLengthHint' | 'contentEncoding' | 'ifNoneMatch'>;
+  ifNotExists?: boolean; // Skip when the object exists (HEAD up front, then an If-None-Match write)
+  ifChanged?: boolean;
+  skipIfIdentical?: boolean; // Hash the content before uploading and skip it when the stored object is the same
+  pagination?: PaginationOptions; // Crawl a paginated API instead of a single request
+  transform?: TransformMode; // Streaming codec applied between download and upload
+  extract?: ExtractOptions; // Unpack an archive under the s3-key prefix instead of storing it
+  fanOut?: FanOutOptions; // Upload the download to several destinations instead of bucket/key
+  provenance?: ProvenanceOptions; // Write a JSON fetch record next to each uploaded object
+  snapshot?: SnapshotOptions; // Write a timestamped snapshot under the s3-key prefix, then prune old ones
+  waitFor?: WaitOptions; // Poll until the source is ready before transferring
+}
+
+// S3 metadata keys holding the source validators used by if-changed
+const SOURCE_ETAG_METADATA = 'source-etag';
+const SOURCE_LAST_MODIFIED_METADATA = 'source-last-modified';
+
+/**
+ * Build a staging key for content-addressed uploads
+ * It sits in a staging folder next to where the final key will be written
+ */
+function stagingKeyFor(keyTemplate: string): string {
+  const staticPrefix = keyTemplate.substring(0, keyTemplate.indexOf('{'));
+  const folder = staticPrefix.substring(0, staticPrefix.lastIndexOf('/') + 1);
+  return `${folder}.url-to-s3-staging/${randomUUID()}`;
+}
+
+export interface TransferResult {
+  statusCode: number; // 0 when no HTTP request was made
+  attempts?: number; // HTTP requests made, including retries (summed across pages)
+  finalUrl?: string; // Source URL after redirects (unset for pagination)
+  redirects?: RedirectHop[]; // Redirects followed to finalUrl
+  bytesTransferred: number;
+  s3Url: string;
+  key?: string; // Key written, with placeholders resolved (single object uploads)
+  etag: string;
+  versionId?: string; // Version of the written object (versioned buckets only)
+  objectExisted: boolean;
+  notModified?: boolean; // True when if-changed skipped the upload on 304 Not Modified
+  contentChanged?: boolean; // False when skip-if-identical found the same content stored (skip-if-identical only)
+  checksums?: Checksums; // Hex digests of the transferred content (unset when skipped)
+  storedBytes?: number; // Bytes written to S3 after the transform (unset without one)
+  extractedKeys?: string[]; // Keys written from the archive (extract only)
+  extractedBytes?: number; // Total size of the extracted entries (extract only)
+  destinations?: DestinationResult[]; // Per-destination outcome (fan-out only)
+  provenanceUrl?: string; // Sidecar provenance record (provenance only)
+  pageCount?: number; // Number of pages fetched (pagination only)
+  latestUrl?: string; // Latest pointer (snapshot only)
+  deletedKeys?: string[]; // Keys of pruned snapshots (snapshot only)
+  waitAttempts?: number; // Polls made before the source was ready (wait-for only)
+  waitedMs?: number; // Time spent polling (wait-for only)
+}
+
+/**
+ * Transfer a single URL to an S3 object
+ * Streams content directly from URL to S3 without storing locally
+ */
+export async function transfer(options: TransferOptions): Promise<TransferResult> {
+  if (options.waitFor) {
+    return waitedTransfer(options, options.waitFor);
+  }
+  if (options.snapshot) {
+    return snapshotTransfer(options, options.snapshot);
+  }
+  if (options.pagination) {
+    return paginatedTransfer(options, options.pagination);
+  }
+  if (options.extract) {
+    return extractTransfer(options, options.extract);
+  }
+
+  const { bucket } = options.upload;
+  const backend = getStorageBackend(options.upload.storage);
+  const now = new Date();
+  let key = options.upload.key;
+
+  if (options.fanOut) {
+    if (options.ifNotExists || options.ifChanged || options.upload.ifMatch || options.skipIfIdentical) {
+      throw new Error('if-not-exists, if-changed, if-match and skip-if-identical cannot be combined with destinations');
+    }
+    const hashKey = options.fanOut.destinations.find((destination) => requiresContentHash(destination.key));
+    if (hashKey) {
+      throw new Error(`Destination key ${hashKey.key} uses a content hash placeholder, which destinations do not support`);
+    }
+  }
+
+  // The existence checks run before the request, so a templated key must be resolvable up front
+  if (hasKeyPlaceholders(key) && (options.ifNotExists || options.ifChanged)) {
+    try {
+      key = resolveKeyTemplate(key, { now, url: options.download.url });
+    } catch (error) {
+      throw new Error(
+        `${error instanceof Error ? error.message : error} ` +
+        '(if-not-exists and if-changed only support {date}, {timestamp}, {run_id} and {sha} placeholders)'
+      );
+    }
+    log.info(`Resolved S3 key: ${key}`);
+  }
+
+  const s3Url = backend.url(bucket, key);
+
+  // Check if object exists BEFORE downloading (if if-not-exists flag is set)
+  // This avoids unnecessary bandwidth usage when the object already exists; the upload
+  // itself is conditional too, so an object created while downloading is not overwritten
+  if (options.ifNotExists) {
+    log.info('Checking if S3 object already exists...');
+    const exists = await backend.head({ ...options.upload, key });
+
+    if (exists) {
+      log.info(`Object already exists at ${s3Url}`);
+      log.info('Skipping download and upload due to if-not-exists flag');
+
+      return {
+        statusCode: 0, // No HTTP request made
+        bytesTransferred: 0,
+        s3Url,
+        etag: '', // Unknown etag
+        objectExisted: true,
+      };
+    }
+
+    log.info('Object does not exist, proceeding with download and upload');
+  }
+
+  // Load the source validators stored on the previous upload (if-changed)
+  // and turn them into a conditional HTTP request
+  const download: DownloadOptions = { ...options.download };
+  let existingEtag = '';
+  if (options.ifChanged) {
+    log.info('Checking S3 object for stored source ETag/Last-Modified...');
+    const head = await backend.head({ ...options.upload, key });
+    const storedEtag = head?.metadata[SOURCE_ETAG_METADATA];
+    const storedLastModified = head?.metadata[SOURCE_LAST_MODIFIED_METADATA];
+
+    if (storedEtag || storedLastModified) {
+      existingEtag = head?.etag || '';
+      download.ifNoneMatch = storedEtag;
+      download.ifModifiedSince = storedLastModified;
+      log.info(`Stored source validators: ETag=${storedEtag || 'none'}, Last-Modified=${storedLastModified || 'none'}`);
+    } else {
+      log.info(head ? 'Object has no stored source validators, fetching unconditionally' : 'Object does not exist, fetching unconditionally');
+    }
+  }
+
+  log.info('Starting streaming download from URL...');
+
+  // Download from URL (returns a stream)
+  const downloadResult = await downloadAsStream(download);
+
+  if (downloadResult.notModified) {
+    log.info('Skipping upload due to if-changed flag (source returned 304 Not Modified)');
+
+    return {
+      statusCode: downloadResult.statusCode,
+      attempts: downloadResult.attempts,
+      finalUrl: downloadResult.finalUrl,
+      redirects: downloadResult.redirects,
+      bytesTransferred: 0,
+      s3Url,
+      etag: existingEtag,
+      objectExisted: true,
+      notModified: true,
+    };
+  }
+
+  log.info('Source request successful, streaming to S3...');
+
+  // Resolve response-based placeholders now; content digests are only known after the
+  // upload, so those keys are uploaded to a staging key and copied into place afterwards
+  const templateContext: KeyTemplateContext = {
+    now,
+    url: download.url,
+    statusCode: downloadResult.statusCode,
+    contentType: downloadResult.contentType,
+    contentDisposition: downloadResult.contentDisposition,
+  };
+  let stagingKey: string | undefined;
+  if (hasKeyPlaceholders(key) && !options.fanOut) {
+    if (requiresContentHash(key) && options.skipIfIdentical) {
+      log.info('S3 key depends on the content hash, resolving it once the content is staged');
+    } else if (requiresContentHash(key)) {
+      stagingKey = stagingKeyFor(key);
+      log.info(`S3 key depends on the content hash, uploading to staging key ${stagingKey} first`);
+    } else {
+      key = resolveKeyTemplate(key, templateContext);
+      log.info(`Resolved S3 key: ${key}`);
+    }
+  }
+
+  // Record the source validators so the next if-changed run can make a conditional request
+  let metadata = options.upload.metadata;
+  if (options.ifChanged && (downloadResult.etag || downloadResult.lastModified)) {
+    metadata = { ...metadata };
+    if (downloadResult.etag) {
+      metadata[SOURCE_ETAG_METADATA] = downloadResult.etag;
+    }
+    if (downloadResult.lastModified) {
+      metadata[SOURCE_LAST_MODIFIED_METADATA] = downloadResult.lastModified;
+    }
+  }
+
+  // Insert the transform codec, or keep the server's encoding, between download and upload
+  const transform = options.transform ?? 'none';
+  const codec = createCodec(transform);
+  let uploadStream: Readable = downloadResult.stream;
+  let storedCounter: CountingStream | undefined;
+  let contentEncoding: string | undefined;
+  if (codec) {
+    log.info(`Transform: ${transform}`);
+    storedCounter = new CountingStream();
+    downloadResult.stream.on('error', (error: Error) => codec.destroy(error));
+    codec.on('error', (error: Error) => storedCounter?.destroy(error));
+    uploadStream = downloadResult.stream.pipe(codec).pipe(storedCounter);
+    contentEncoding = contentEncodingFor(transform);
+  } else if (download.keepEncoding) {
+    contentEncoding = downloadResult.contentEncoding;
+  }
+
+  // Stage the content and compare its hash with the stored object before writing anything;
+  // the hash is known up front, so content-hash keys need no staging object
+  let staged: StagedContent | undefined;
+  if (options.skipIfIdentical) {
+    log.info('Staging content to compare it with the stored object (skip-if-identical)...');
+    staged = await stageContent(uploadStream);
+    if (hasKeyPlaceholders(key)) {
+      key = resolveKeyTemplate(key, { ...templateContext, checksums: downloadResult.stream.getChecksums() });
+      log.info(`Resolved S3 key: ${key}`);
+    }
+
+    const head = await backend.head({ ...options.upload, key }, { checksum: true });
+    const stored = head ? storedSha256(head) : undefined;
+    if (head && stored === staged.sha256) {
+      staged.remove();
+      log.info(`Object at ${backend.url(bucket, key)} has the same SHA-256 (${stored})`);
+      log.info('Skipping upload due to skip-if-identical flag');
+      return {
+        statusCode: downloadResult.statusCode,
+        attempts: downloadResult.attempts,
+        finalUrl: downloadResult.finalUrl,
+        redirects: downloadResult.redirects,
+        bytesTransferred: downloadResult.stream.getBytesTransferred(),
+        s3Url: backend.url(bucket, key),
+        key,
+        etag: head.etag,
+        objectExisted: true,
+        contentChanged: false,
+        checksums: downloadResult.stream.getChecksums(),
+        storedBytes: storedCounter ? staged.size : undefined,
+      };
+    }
+
+    log.info(
+      !head ? 'Object does not exist, uploading'
+        : stored ? `Stored SHA-256 ${stored} differs from ${staged.sha256}, uploading`
+          : 'Object has no stored SHA-256, uploading'
+    );
+    metadata = { ...metadata, [CONTENT_SHA256_METADATA]: staged.sha256 };
+    uploadStream = staged.open();
+  }
+
+  // Upload to S3 (streaming directly from download)
+  const uploadOptions = {
+    ...options.upload,
+    key,
+    metadata,
+    ifNoneMatch: options.ifNotExists ? '*' : undefined,
+    // Determine content type (use override if provided, otherwise use detected)
+    contentType: options.upload.contentType || contentTypeAfter(transform, downloadResult.contentType),
+    contentEncoding,
+  };
+  // The transformed size is unknown; the header only matches the bytes when nothing is decoded
+  const contentLengthHint = staged ? staged.size : codec ? undefined : downloadResult.contentLengthHeader;
+  let uploadResult: UploadResult;
+  let destinations: DestinationResult[] | undefined;
+  if (options.fanOut) {
+    destinations = await uploadToDestinations(
+      uploadStream,
+      { ...uploadOptions, contentLengthHint },
+      options.fanOut,
+      (keyTemplate) => hasKeyPlaceholders(keyTemplate) ? resolveKeyTemplate(keyTemplate, templateContext) : keyTemplate
+    );
+    const first = destinations.find((destination) => destination.status === 'success') ?? destinations[0];
+    uploadResult = { s3Url: first.s3Url, etag: first.etag };
+  } else {
+    // Retention and preconditions apply to the final key, the staging object must stay deletable
+    try {
+      uploadResult = await writeObject({
+        ...uploadOptions,
+        ...(stagingKey ? { key: stagingKey, objectLock: undefined, ifMatch: undefined, ifNoneMatch: undefined } : {}),
+        stream: uploadStream,
+        contentLengthHint,
+      });
+    } finally {
+      staged?.remove();
+    }
+  }
+
+  // Upload completed successfully
+  log.info('Stream upload completed successfully');
+
+  // Get actual bytes transferred (now that the stream has been fully consumed)
+  const actualBytesTransferred = downloadResult.stream.getBytesTransferred();
+  log.info(`Total bytes transferred: ${actualBytesTransferred} bytes (${(actualBytesTransferred / 1024 / 1024).toFixed(2)} MB)`);
+
+  if (storedCounter) {
+    log.info(`Stored bytes after ${transform}: ${storedCounter.bytes} bytes (${(storedCounter.bytes / 1024 / 1024).toFixed(2)} MB)`);
+  }
+
+  const checksums = downloadResult.stream.getChecksums();
+  if (checksums) {
+    log.info(`SHA-256: ${checksums.sha256}`);
+    log.info(`SHA-1: ${checksums.sha1}`);
+    log.info(`MD5: ${checksums.md5}`);
+  }
+
+  if (stagingKey) {
+    key = resolveKeyTemplate(key, { ...templateContext, checksums });
+    log.info(`Resolved S3 key: ${key}`);
+    uploadResult = await backend.promote({ ...uploadOptions, key }, stagingKey);
+  }
+
+  // Record where the content came from next to each object that was written
+  let provenanceUrl: string | undefined;
+  if (options.provenance && !uploadResult.objectExisted) {
+    const facts: ProvenanceFacts = {
+      url: download.url,
+      finalUrl: downloadResult.finalUrl,
+      method: download.method,
+      statusCode: downloadResult.statusCode,
+      attempts: downloadResult.attempts,
+      responseHeaders: downloadResult.responseHeaders,
+      startedAt: now,
+      completedAt: new Date(),
+      bytes: actualBytesTransferred,
+      storedBytes: storedCounter?.bytes ?? actualBytesTransferred,
+      contentType: uploadOptions.contentType,
+      contentEncoding,
+      checksums,
+      storage: options.upload.storage,
+      bucket,
+      key,
+      etag: uploadResult.etag,
+      versionId: uploadResult.versionId,
+    };
+
+    try {
+      if (destinations) {
+        for (const [index, destination] of destinations.entries()) {
+          if (destination.status !== 'success') continue;
+          const destinationUpload = destinationUploadOptions(uploadOptions, (options.fanOut as FanOutOptions).destinations[index]);
+          destination.provenanceUrl = await writeProvenance(destinationUpload, buildProvenanceRecord({
+            ...facts,
+            storage: destinationUpload.storage,
+            bucket: destination.bucket,
+            key: destination.key,
+            etag: destination.etag,
+            versionId: destination.versionId,
+          }, options.provenance), options.provenance);
+        }
+      } else {
+        provenanceUrl = await writeProvenance(uploadOptions, buildProvenanceRecord(facts, options.provenance), options.provenance);
+      }
+    } catch (error) {
+      throw new Error(`Object uploaded, but writing the provenance record failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  // Verify against header if it was provided and there's no compression
+  // Note: When Content-Encoding is present (gzip, deflate, br, etc.), axios decompresses automatically,
+  // so actualBytesTransferred will be the decompressed size while Content-Length is the compressed size
+  if (downloadResult.contentLengthHeader > 0 && actualBytesTransferred !== downloadResult.contentLengthHeader) {
+    if (downloadResult.contentEncoding && !download.keepEncoding) {
+      log.info(
+        `Content-Length header (${downloadResult.contentLengthHeader} bytes) is compressed size, ` +
+        `actual decompressed size is ${actualBytesTransferred} bytes`
+      );
+    } else {
+      log.warning(
+        `Bytes transferred (${actualBytesTransferred}) differs from Content-Length header (${downloadResult.contentLengthHeader})`
+      );
+    }
+  }
+
+  return {
+    statusCode: downloadResult.statusCode,
+    attempts: downloadResult.attempts,
+    finalUrl: downloadResult.finalUrl,
+    redirects: downloadResult.redirects,
+    bytesTransferred: actualBytesTransferred,
+    s3Url: uploadResult.s3Url,
+    key,
+    etag: uploadResult.etag,
+    versionId: uploadResult.versionId,
+    objectExisted: uploadResult.objectExisted ?? false,
+    contentChanged: options.skipIfIdentical ? !uploadResult.objectExisted : undefined,
+    checksums,
+    storedBytes: storedCounter?.bytes,
+    destinations,
+    provenanceUrl,
+  };
+}
+
+/**
+ * Write the download as a new snapshot under the s3-key prefix, then update the latest pointer and prune
+ */
+async function snapshotTransfer(options: TransferOptions, snapshot: SnapshotOptions): Promise<TransferResult> {
+  if (options.ifNotExists || options.ifChanged || options.upload.ifMatch || options.skipIfIdentical) {
+    throw new Error('if-not-exists, if-changed, if-match and skip-if-identical cannot be combined with snapshot');
+  }
+  if (options.pagination || options.extract || options.fanOut) {
+    throw new Error('pagination, extract and destinations cannot be combined with snapshot');
+  }
+
+  const prefix = snapshotPrefix(options.upload.key);
+  const result = await transfer({
+    ...options,
+    snapshot: undefined,
+    upload: { ...options.upload, key: `${prefix}${snapshot.key}` },
+  });
+  return { ...result, ...(await finishSnapshot(options, snapshot, prefix, result)) };
+}
+
+/**
+ * Poll until the source is ready, then run the transfer
+ */
+async function waitedTransfer(options: TransferOptions, wait: WaitOptions): Promise<TransferResult> {
+  const waited = await waitUntilReady(options.download, wait);
+  const result = await transfer({ ...options, waitFor: undefined });
+  return { ...result, waitAttempts: waited.attempts, waitedMs: waited.waitedMs };
+}
@@ -1,27 +1,106 @@
-import * as core from '@actions/core';
-import { S3Client, PutObjectCommandInput } from '@aws-sdk/client-s3';
+import {
+  S3Client,
+  HeadObjectCommand,
+  HeadObjectCommandOutput,
+  PutObjectCommandInput,
+  HeadObjectCommandInput,
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  paginateListObjectsV2,
+  ObjectCannedACL,
+  ServerSideEncryption,
+  StorageClass,
+} from '@aws-sdk/client-s3';
 import { Upload } from '@aws-sdk/lib-storage';
 import { Readable } from 'stream';
+import { log } from './logger';
+import { getS3Client, S3ClientOptions } from './s3-client';
+import { ValidationError } from './validate';
+import type { StorageType } from './storage';
+
+export interface EncryptionOptions {
+  sse?: string; // AES256, aws:kms or aws:kms:dsse
+  kmsKeyId?: string;
+  kmsEncryptionContext?: Record<string, string>;
+  bucketKeyEnabled?: boolean;
+  customerAlgorithm?: string; // SSE-C algorithm (AES256)
+  customerKey?: string; // SSE-C key, base64-encoded 256-bit key
+}
+
+type EncryptionParams = Pick<
+  PutObjectCommandInput,
+  | 'ServerSideEncryption'
+  | 'SSEKMSKeyId'
+  | 'SSEKMSEncryptionContext'
+  | 'BucketKeyEnabled'
+  | 'SSECustomerAlgorithm'
+  | 'SSECustomerKey'
+>;
+
+type CustomerKeyParams = Pick<HeadObjectCommandInput, 'SSECustomerAlgorithm' | 'SSECustomerKey'>;
+
+export type ObjectLockMode = 'GOVERNANCE' | 'COMPLIANCE';
+
+export interface ObjectLockOptions {
+  mode?: ObjectLockMode; // Retention mode, set together with retainUntil
+  retainUntil?: Date;
+  legalHold?: boolean;
+}
+
+type ObjectLockParams = Pick<
+  PutObjectCommandInput,
+  'ObjectLockMode' | 'ObjectLockRetainUntilDate' | 'ObjectLockLegalHoldStatus'
+>;
+
+const OBJECT_LOCK_MODES: ObjectLockMode[] = ['GOVERNANCE', 'COMPLIANCE'];
+
+// Units accepted in object-lock-retain-until durations (e.g., 30d)
+const DURATION_UNITS: Record<string, number> = {
+  'h': 60 * 60 * 1000,
+  'd': 24 * 60 * 60 * 1000,
+  'w': 7 * 24 * 60 * 60 * 1000,
+  'y': 365 * 24 * 60 * 60 * 1000,
+};
 
 export interface UploadOptions {
-  bucket: string;
+  storage?: StorageType; // Backend the object is written to (default: s3)
+  bucket: string; // S3 bucket, or the root directory for file storage
   key: string;
   stream: Readable;
   contentLengthHint?: number; // Hint from HTTP header (may be 0 for chunked)
   contentType?: string;
-  contentEncoding?: string; // If set, contentLengthHint is compressed size and should be ignored
+  contentEncoding?: string; // Content-Encoding stored on the object (e.g., gzip after a transform)
   bucketOwner?: string;
   acl?: string;
   storageClass?: string;
   cacheControl?: string;
   metadata?: Record<string, string>;
   tags?: Record<string, string>;
+  nativeChecksum?: boolean; // Have the SDK send SHA-256 checksums for S3 to verify
+  encryption?: EncryptionOptions;
+  objectLock?: ObjectLockOptions; // Retention and legal hold (the bucket needs Object Lock enabled)
+  ifMatch?: string; // Conditional write: only replace the object if its ETag matches
+  ifNoneMatch?: string; // Conditional write: '*' only creates the object if the key is free
+  clientOptions?: S3ClientOptions; // Endpoint, region and credentials for the S3 client
 }
 
+/**
+ * An object found by a listing
+ */
+export interface StoredObject {
+  key: string;
+  lastModified: Date;
+}
+
+// DeleteObjects accepts up to 1000 keys per request
+const DELETE_BATCH_SIZE = 1000;
+
 export interface UploadResult {
   etag: string;
   s3Url: string;
-  objectExisted?: boolean;
+  versionId?: string; // Set when the bucket has versioning enabled
+  objectExisted?: boolean; // True when If-None-Match found an existing object (nothing written)
 }
 
 /**
@@ -40,12 +119,12 @@ export function parseKeyValuePairs(input?: string, name = 'input'): Record<strin
     try {
       const parsed = JSON.parse(trimmed);
       if (typeof parsed !== 'object' || Array.isArray(parsed)) {
-        core.warning(`${name} must be a JSON object`);
+        log.warning(`${name} must be a JSON object`);
         return undefined;
       }
       return parsed;
     } catch (error) {
-      core.warning(`Failed to parse ${name} as JSON: ${error}`);
+      log.warning(`Failed to parse ${name} as JSON: ${error}`);
     }
   }
 
@@ -59,7 +138,7 @@ export function parseKeyValuePairs(input?: string, name = 'input'): Record<strin
 
     const separatorIndex = trimmedPair.indexOf('=');
     if (separatorIndex === -1) {
-      core.warning(`Skipping invalid ${name} pair: ${trimmedPair}`);
+      log.warning(`Skipping invalid ${name} pair: ${trimmedPair}`);
       continue;
     }
 
@@ -93,7 +172,7 @@ export function parseTags(tagsInput?: string): Record<string, string> | undefine
 /**
  * Validate ACL value
  */
-function validateAcl(acl?: string): string | undefined {
+function validateAcl(acl?: string): ObjectCannedACL | undefined {
   if (!acl) return undefined;
 
   const validAcls = [
@@ -112,13 +191,13 @@ function validateAcl(acl?: string): string | undefined {
     );
   }
 
-  return acl;
+  return acl as ObjectCannedACL;
 }
 
 /**
  * Validate storage class
  */
-function validateStorageClass(storageClass?: string): string | undefined {
+function validateStorageClass(storageClass?: string): StorageClass | undefined {
   if (!storageClass) return undefined;
 
   const validClasses = [
@@ -138,34 +217,200 @@ function validateStorageClass(storageClass?: string): string | undefined {
     );
   }
 
-  return storageClass;
+  return storageClass as StorageClass;
+}
+
+/**
+ * Parse object-lock-retain-until: an ISO 8601 date, or a duration from now such as 30d, 12h, 2w or 1y
+ */
+export function parseRetainUntil(input: string, now = new Date()): Date | undefined {
+  if (!input) return undefined;
+
+  const duration = /^(\d+)\s*([hdwy])$/i.exec(input.trim());
+  if (duration) {
+    return new Date(now.getTime() + parseInt(duration[1], 10) * DURATION_UNITS[duration[2].toLowerCase()]);
+  }
+
+  const date = new Date(input.trim());
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid object-lock-retain-until: ${input}. Must be an ISO 8601 date or a duration like 30d, 12h, 2w or 1y`);
+  }
+  return date;
+}
+
+/**
+ * Validate Object Lock options and convert them to S3 request parameters
+ */
+function validateObjectLock(objectLock?: ObjectLockOptions): ObjectLockParams {
+  if (!objectLock) return {};
+
+  if (objectLock.mode && !OBJECT_LOCK_MODES.includes(objectLock.mode)) {
+    throw new Error(`Invalid object-lock-mode: ${objectLock.mode}. Must be one of: ${OBJECT_LOCK_MODES.join(', ')}`);
+  }
+  if (objectLock.mode && !objectLock.retainUntil) {
+    throw new Error('object-lock-mode requires object-lock-retain-until');
+  }
+  if (objectLock.retainUntil && !objectLock.mode) {
+    throw new Error('object-lock-retain-until requires object-lock-mode');
+  }
+  if (objectLock.retainUntil && objectLock.retainUntil.getTime() <= Date.now()) {
+    throw new Error(`object-lock-retain-until must be in the future: ${objectLock.retainUntil.toISOString()}`);
+  }
+
+  return {
+    ObjectLockMode: objectLock.mode,
+    ObjectLockRetainUntilDate: objectLock.retainUntil,
+    ObjectLockLegalHoldStatus: objectLock.legalHold ? 'ON' : undefined,
+  };
+}
+
+/**
+ * Log the Object Lock and conditional write parameters of a request
+ */
+function logWriteProtection(objectLockParams: ObjectLockParams, options: Pick<UploadOptions, 'ifMatch' | 'ifNoneMatch'>): void {
+  if (objectLockParams.ObjectLockMode) {
+    log.info(`Object Lock: ${objectLockParams.ObjectLockMode} until ${objectLockParams.ObjectLockRetainUntilDate?.toISOString()}`);
+  }
+  if (objectLockParams.ObjectLockLegalHoldStatus) {
+    log.info('Legal hold: ON');
+  }
+  if (options.ifMatch) {
+    log.info(`Conditional write: If-Match ${options.ifMatch}`);
+  }
+  if (options.ifNoneMatch) {
+    log.info(`Conditional write: If-None-Match ${options.ifNoneMatch}`);
+  }
+}
+
+/**
+ * Turn a rejected conditional write into a clear error
+ * Returns undefined when the error is not caused by a precondition
+ */
+function conditionalWriteError(error: unknown, options: Pick<UploadOptions, 'ifMatch' | 'ifNoneMatch'>): Error | undefined {
+  const status = (error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode;
+  if (status === 412 && options.ifMatch) {
+    return new Error(`Precondition failed: the object's ETag does not match if-match ${options.ifMatch}`);
+  }
+  if (status === 409 && (options.ifMatch || options.ifNoneMatch)) {
+    return new Error('Conditional write conflicted with a concurrent write to the same key (409), retry the transfer');
+  }
+  return undefined;
+}
+
+/**
+ * Check whether an error is S3 rejecting If-None-Match because the object exists
+ */
+function isObjectExistsError(error: unknown, options: Pick<UploadOptions, 'ifNoneMatch'>): boolean {
+  return Boolean(options.ifNoneMatch) &&
+    (error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode === 412;
+}
+
+/**
+ * Validate server-side encryption type
+ */
+function validateSse(sse?: string): ServerSideEncryption | undefined {
+  if (!sse) return undefined;
+
+  const validSse = [
+    'AES256',
+    'aws:kms',
+    'aws:kms:dsse',
+  ];
+
+  if (!validSse.includes(sse)) {
+    throw new Error(
+      `Invalid sse value: ${sse}. Must be one of: ${validSse.join(', ')}`
+    );
+  }
+
+  return sse as ServerSideEncryption;
+}
+
+/**
+ * Validate SSE-C customer key and algorithm
+ * The SDK computes the key MD5 itself, so only the key and algorithm are returned
+ */
+export function validateCustomerKey(encryption?: EncryptionOptions): CustomerKeyParams {
+  if (!encryption?.customerKey) {
+    if (encryption?.customerAlgorithm) {
+      throw new Error('sse-customer-algorithm requires sse-customer-key');
+    }
+    return {};
+  }
+
+  const algorithm = encryption.customerAlgorithm || 'AES256';
+  if (algorithm !== 'AES256') {
+    throw new Error(`Invalid sse-customer-algorithm: ${algorithm}. Must be AES256`);
+  }
+
+  const key = encryption.customerKey.trim();
+  if (Buffer.from(key, 'base64').length !== 32 || !/^[A-Za-z0-9+/]+={0,2}$/.test(key)) {
+    throw new Error('Invalid sse-customer-key: must be a base64-encoded 256-bit key');
+  }
+
+  return {
+    SSECustomerAlgorithm: algorithm,
+    SSECustomerKey: key,
+  };
+}
+
+/**
+ * Validate encryption options and convert them to S3 request parameters
+ */
+function validateEncryption(encryption?: EncryptionOptions): EncryptionParams {
+  if (!encryption) return {};
+
+  const sse = validateSse(encryption.sse);
+  const isKms = sse === 'aws:kms' || sse === 'aws:kms:dsse';
+
+  if (encryption.kmsKeyId && !isKms) {
+    throw new Error('sse-kms-key-id requires sse to be aws:kms or aws:kms:dsse');
+  }
+  if (encryption.kmsEncryptionContext && !isKms) {
+    throw new Error('sse-kms-encryption-context requires sse to be aws:kms or aws:kms:dsse');
+  }
+  if (encryption.bucketKeyEnabled && sse !== 'aws:kms') {
+    throw new Error('bucket-key-enabled requires sse to be aws:kms');
+  }
+  if (encryption.customerKey && sse) {
+    throw new Error('sse-customer-key (SSE-C) cannot be combined with sse');
+  }
+
+  return {
+    ServerSideEncryption: sse,
+    SSEKMSKeyId: encryption.kmsKeyId,
+    // S3 expects the encryption context as base64-encoded JSON
+    SSEKMSEncryptionContext: encryption.kmsEncryptionContext
+      ? Buffer.from(JSON.stringify(encryption.kmsEncryptionContext)).toString('base64')
+      : undefined,
+    BucketKeyEnabled: encryption.bucketKeyEnabled || undefined,
+    ...validateCustomerKey(encryption),
+  };
 }
 
 /**
  * Upload stream to S3
  * Streams data directly to S3 without storing locally
- *
- * Note: The if-not-exists check is now performed in index.ts BEFORE downloading,
- * so this function no longer needs the ifNotExists parameter.
+ * With ifNoneMatch the write is atomic: an object created in the meantime is kept
+ * and the result reports objectExisted instead of overwriting it.
  */
 export async function uploadStreamToS3(options: UploadOptions): Promise<UploadResult> {
-  core.info(`Uploading to S3: s3://${options.bucket}/${options.key}`);
+  log.info(`Uploading to S3: s3://${options.bucket}/${options.key}`);
 
   // Validate inputs
   const acl = validateAcl(options.acl);
   const storageClass = validateStorageClass(options.storageClass);
+  const encryptionParams = validateEncryption(options.encryption);
+  const objectLockParams = validateObjectLock(options.objectLock);
 
-  // Create S3 client (automatically uses credentials from environment)
-  // Disable request checksums for LocalStack compatibility (LocalStack has issues with CRC32)
-  const s3Client = new S3Client({
-    requestChecksumCalculation: 'WHEN_REQUIRED',
-  });
+  // Get S3 client (uses credentials from environment unless explicit ones are configured)
+  const s3Client = getS3Client(options.clientOptions);
 
   // Log content length hint if known
   if (options.contentLengthHint && options.contentLengthHint > 0) {
-    core.info(`Content-Length hint: ${options.contentLengthHint} bytes (${(options.contentLengthHint / 1024 / 1024).toFixed(2)} MB)`);
+    log.info(`Content-Length hint: ${options.contentLengthHint} bytes (${(options.contentLengthHint / 1024 / 1024).toFixed(2)} MB)`);
   } else {
-    core.info(`Content-Length: unknown (will be determined during upload)`);
+    log.info(`Content-Length: unknown (will be determined during upload)`);
   }
 
   // Convert tags to S3 tagging format
@@ -182,38 +427,63 @@ export async function uploadStreamToS3(options: UploadOptions): Promise<UploadRe
     Key: options.key,
     Body: options.stream,
     ContentType: options.contentType,
+    ContentEncoding: options.contentEncoding,
     // Don't set ContentLength - let AWS SDK handle it with chunked encoding
     // This avoids issues with compressed responses where Content-Length header
     // represents compressed size but stream contains decompressed data
     ExpectedBucketOwner: options.bucketOwner,
-    ACL: acl as any,
-    StorageClass: storageClass as any,
+    ACL: acl,
+    StorageClass: storageClass,
     CacheControl: options.cacheControl,
     Metadata: options.metadata,
     Tagging: tagging,
+    // S3 requires a checksum on writes that set Object Lock retention or legal hold
+    ChecksumAlgorithm: options.nativeChecksum || objectLockParams.ObjectLockMode || objectLockParams.ObjectLockLegalHoldStatus
+      ? 'SHA256'
+      : undefined,
+    IfMatch: options.ifMatch,
+    IfNoneMatch: options.ifNoneMatch,
+    ...encryptionParams,
+    ...objectLockParams,
   };
 
   // Log upload parameters
-  core.info(`Content-Type: ${uploadParams.ContentType || 'not specified'}`);
+  log.info(`Content-Type: ${uploadParams.ContentType || 'not specified'}`);
+  if (uploadParams.ContentEncoding) {
+    log.info(`Content-Encoding: ${uploadParams.ContentEncoding}`);
+  }
   if (uploadParams.ACL) {
-    core.info(`ACL: ${uploadParams.ACL}`);
+    log.info(`ACL: ${uploadParams.ACL}`);
   }
   if (uploadParams.StorageClass) {
-    core.info(`Storage Class: ${uploadParams.StorageClass}`);
+    log.info(`Storage Class: ${uploadParams.StorageClass}`);
   }
   if (uploadParams.CacheControl) {
-    core.info(`Cache-Control: ${uploadParams.CacheControl}`);
+    log.info(`Cache-Control: ${uploadParams.CacheControl}`);
   }
   if (uploadParams.Metadata) {
-    core.info(`Metadata: ${JSON.stringify(uploadParams.Metadata)}`);
+    log.info(`Metadata: ${JSON.stringify(uploadParams.Metadata)}`);
   }
   if (uploadParams.Tagging) {
-    core.info(`Tags: ${JSON.stringify(options.tags)}`);
+    log.info(`Tags: ${JSON.stringify(options.tags)}`);
+  }
+  if (uploadParams.ServerSideEncryption) {
+    log.info(`Server-side encryption: ${uploadParams.ServerSideEncryption}${uploadParams.SSEKMSKeyId ? ` (KMS key: ${uploadParams.SSEKMSKeyId})` : ''}`);
+  }
+  if (uploadParams.BucketKeyEnabled) {
+    log.info('S3 Bucket Key: enabled');
+  }
+  if (uploadParams.SSECustomerKey) {
+    log.info(`Server-side encryption: SSE-C (${uploadParams.SSECustomerAlgorithm})`);
   }
+  if (uploadParams.ChecksumAlgorithm) {
+    log.info(`S3 checksum algorithm: ${uploadParams.ChecksumAlgorithm}`);
+  }
+  logWriteProtection(objectLockParams, options);
 
   // Upload to S3 using Upload class (handles streaming properly)
   try {
-    core.info('Starting streaming upload to S3...');
+    log.info('Starting streaming upload to S3...');
 
     const upload = new Upload({
       client: s3Client,
@@ -224,27 +494,226 @@ export async function uploadStreamToS3(options: UploadOptions): Promise<UploadRe
     upload.on('httpUploadProgress', (progress) => {
       if (progress.loaded && progress.total) {
         const percent = ((progress.loaded / progress.total) * 100).toFixed(1);
-        core.info(`Upload progress: ${percent}% (${progress.loaded}/${progress.total} bytes)`);
+        log.info(`Upload progress: ${percent}% (${progress.loaded}/${progress.total} bytes)`);
       }
     });
 
     const response = await upload.done();
 
     const etag = response.ETag || '';
+    const versionId = 'VersionId' in response ? response.VersionId : undefined;
     const s3Url = `s3://${options.bucket}/${options.key}`;
 
-    core.info(`Successfully uploaded to S3`);
-    core.info(`ETag: ${etag}`);
+    log.info(`Successfully uploaded to S3`);
+    log.info(`ETag: ${etag}`);
+    if (versionId) {
+      log.info(`Version ID: ${versionId}`);
+    }
 
     return {
       etag,
       s3Url,
+      versionId,
       objectExisted: false,
     };
   } catch (error) {
+    // The body failed a validation gate and the upload was aborted; report the reason as is
+    if (error instanceof ValidationError) {
+      throw error;
+    }
+    if (isObjectExistsError(error, options)) {
+      log.info(`Object already exists at s3://${options.bucket}/${options.key}, upload not committed (If-None-Match)`);
+      return {
+        etag: '',
+        s3Url: `s3://${options.bucket}/${options.key}`,
+        objectExisted: true,
+      };
+    }
+    const conditionalError = conditionalWriteError(error, options);
+    if (conditionalError) {
+      throw new Error(`Failed to upload to S3: ${conditionalError.message}`);
+    }
     if (error instanceof Error) {
       throw new Error(`Failed to upload to S3: ${error.message}`);
     }
     throw error;
   }
 }
+
+/**
+ * Fetch the head of an S3 object
+ * Returns undefined if the object does not exist.
+ * SSE-C objects need the customer key even for HEAD, so it is passed along when set.
+ * With checksum set, the object's stored checksums are returned too (KMS-encrypted
+ * objects then need kms:Decrypt).
+ */
+export async function headObject(
+  s3Client: S3Client,
+  bucket: string,
+  key: string,
+  encryption?: EncryptionOptions,
+  checksum = false
+): Promise<HeadObjectCommandOutput | undefined> {
+  try {
+    return await s3Client.send(new HeadObjectCommand({
+      Bucket: bucket,
+      Key: key,
+      ChecksumMode: checksum ? 'ENABLED' : undefined,
+      ...validateCustomerKey(encryption),
+    }));
+  } catch (error: any) {
+    if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) {
+      return undefined;
+    }
+    // Re-throw other errors (permissions, etc.)
+    throw error;
+  }
+}
+
+/**
+ * Copy an object to options.key within the bucket
+ * Metadata, content type and tags are copied from the source object; ACL, storage
+ * class and encryption are applied again since S3 does not carry them over.
+ */
+export async function copyObject(
+  options: Omit<UploadOptions, 'stream'>,
+  sourceKey: string,
+  description = 'object'
+): Promise<UploadResult> {
+  const acl = validateAcl(options.acl);
+  const storageClass = validateStorageClass(options.storageClass);
+  const encryptionParams = validateEncryption(options.encryption);
+  const objectLockParams = validateObjectLock(options.objectLock);
+  const s3Client = getS3Client(options.clientOptions);
+
+  const copySource = `${options.bucket}/${sourceKey.split('/').map(encodeURIComponent).join('/')}`;
+  log.info(`Copying ${description} s3://${options.bucket}/${sourceKey} to s3://${options.bucket}/${options.key}`);
+  logWriteProtection(objectLockParams, options);
+
+  try {
+    const response = await s3Client.send(new CopyObjectCommand({
+      Bucket: options.bucket,
+      Key: options.key,
+      CopySource: copySource,
+      ExpectedBucketOwner: options.bucketOwner,
+      ExpectedSourceBucketOwner: options.bucketOwner,
+      MetadataDirective: 'COPY',
+      TaggingDirective: 'COPY',
+      ACL: acl,
+      StorageClass: storageClass,
+      IfMatch: options.ifMatch,
+      IfNoneMatch: options.ifNoneMatch,
+      ...encryptionParams,
+      ...objectLockParams,
+      CopySourceSSECustomerAlgorithm: encryptionParams.SSECustomerAlgorithm,
+      CopySourceSSECustomerKey: encryptionParams.SSECustomerKey,
+    }));
+
+    const etag = response.CopyObjectResult?.ETag || '';
+    log.info(`ETag: ${etag}`);
+    if (response.VersionId) {
+      log.info(`Version ID: ${response.VersionId}`);
+    }
+
+    return {
+      etag,
+      s3Url: `s3://${options.bucket}/${options.key}`,
+      versionId: response.VersionId,
+      objectExisted: false,
+    };
+  } catch (error) {
+    if (isObjectExistsError(error, options)) {
+      log.info(`Object already exists at s3://${options.bucket}/${options.key}, copy not committed (If-None-Match)`);
+      return {
+        etag: '',
+        s3Url: `s3://${options.bucket}/${options.key}`,
+        objectExisted: true,
+      };
+    }
+    const conditionalError = conditionalWriteError(error, options);
+    if (conditionalError) {
+      throw new Error(`Failed to copy ${description}: ${conditionalError.message}`);
+    }
+    if (error instanceof Error) {
+      throw new Error(`Failed to copy ${description}: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Copy a staged object to its final key and delete the staging object
+ * Used when the final key depends on the content (e.g., {sha256} placeholders).
+ */
+export async function promoteStagedObject(
+  options: Omit<UploadOptions, 'stream'>,
+  stagingKey: string
+): Promise<UploadResult> {
+  try {
+    return await copyObject(options, stagingKey, 'staged object');
+  } finally {
+    try {
+      await getS3Client(options.clientOptions).send(new DeleteObjectCommand({
+        Bucket: options.bucket,
+        Key: stagingKey,
+        ExpectedBucketOwner: options.bucketOwner,
+      }));
+      log.info(`Deleted staging object s3://${options.bucket}/${stagingKey}`);
+    } catch (error) {
+      log.warning(`Failed to delete staging object s3://${options.bucket}/${stagingKey}: ${error}`);
+    }
+  }
+}
+
+/**
+ * List the objects under a key prefix
+ */
+export async function listObjects(
+  options: Pick<UploadOptions, 'bucket' | 'bucketOwner' | 'clientOptions'>,
+  prefix: string
+): Promise<StoredObject[]> {
+  const objects: StoredObject[] = [];
+  const pages = paginateListObjectsV2(
+    { client: getS3Client(options.clientOptions) },
+    { Bucket: options.bucket, Prefix: prefix, ExpectedBucketOwner: options.bucketOwner }
+  );
+
+  for await (const page of pages) {
+    for (const object of page.Contents ?? []) {
+      if (object.Key) {
+        objects.push({ key: object.Key, lastModified: object.LastModified ?? new Date(0) });
+      }
+    }
+  }
+
+  return objects;
+}
+
+/**
+ * Delete objects in batches; fails with the keys S3 could not delete (e.g., under Object Lock)
+ */
+export async function deleteObjects(
+  options: Pick<UploadOptions, 'bucket' | 'bucketOwner' | 'clientOptions'>,
+  keys: string[]
+): Promise<void> {
+  const s3Client = getS3Client(options.clientOptions);
+  const failed: string[] = [];
+
+  for (let start = 0; start < keys.length; start += DELETE_BATCH_SIZE) {
+    const response = await s3Client.send(new DeleteObjectsCommand({
+      Bucket: options.bucket,
+      ExpectedBucketOwner: options.bucketOwner,
+      Delete: {
+        Objects: keys.slice(start, start + DELETE_BATCH_SIZE).map((key) => ({ Key: key })),
+        Quiet: true,
+      },
+    }));
+    for (const error of response.Errors ?? []) {
+      failed.push(`${error.Key} (${error.Code})`);
+    }
+  }
+
+  if (failed.length > 0) {
+    throw new Error(`Failed to delete ${failed.length} objects: ${failed.join(', ')}`);
+  }
+}
@@ -0,0 +1,71 @@
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { checkResponseHeaders, JSON_VALIDATION_LIMIT, parseSize, ValidatingStream, ValidationError, ValidationOptions } from './validate';
+
+/**
+ * Pass the chunks through a ValidatingStream, discarding the output
+ */
+function validate(options: ValidationOptions, chunks: (string | Buffer)[]): Promise<void> {
+  const sink = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+  return pipeline(Readable.from(chunks.map((chunk) => Buffer.from(chunk))), new ValidatingStream(options), sink);
+}
+
+describe('parseSize', () => {
+  it('reads decimal and binary suffixes', () => {
+    expect(parseSize('1.5 KB', 'max-size')).toBe(1500);
+    expect(parseSize('2MiB', 'max-size')).toBe(2 * 1024 ** 2);
+    expect(parseSize('', 'max-size')).toBeUndefined();
+    expect(() => parseSize('10 parsecs', 'max-size')).toThrow('Invalid max-size: 10 parsecs');
+  });
+});
+
+describe('checkResponseHeaders', () => {
+  it('checks the Content-Type allowlist and Content-Length', () => {
+    expect(() => checkResponseHeaders({ allowedContentTypes: ['text/*'] }, 'text/csv; charset=utf-8', 10)).not.toThrow();
+    expect(() => checkResponseHeaders({ allowedContentTypes: ['application/json'] }, 'text/html', 10))
+      .toThrow(new ValidationError('Content-Type text/html is not allowed, expected one of: application/json'));
+    expect(() => checkResponseHeaders({ maxSize: 5 }, undefined, 10)).toThrow('exceeds max-size (5 bytes)');
+    // A compressed Content-Length says nothing about the stored size
+    expect(() => checkResponseHeaders({ maxSize: 5 }, undefined, 10, 'gzip')).not.toThrow();
+  });
+});
+
+describe('ValidatingStream', () => {
+  it('enforces max-size and min-size on the body', async () => {
+    await expect(validate({ maxSize: 4 }, ['abc', 'de'])).rejects.toThrow('response body exceeds max-size (4 bytes)');
+    await expect(validate({ minSize: 10 }, ['abc'])).rejects.toThrow('response body is 3 bytes, smaller than min-size (10 bytes)');
+  });
+
+  it('parses JSON split across chunks', async () => {
+    await expect(validate({ mode: 'json' }, ['{"a":', ' [1, 2]}'])).resolves.toBeUndefined();
+    await expect(validate({ mode: 'json' }, ['{"a":'])).rejects.toThrow('response body is not valid JSON');
+  });
+
+  it('refuses JSON bodies larger than it reads into memory', async () => {
+    const chunk = Buffer.alloc(1024 ** 2, ' ');
+    const chunks = Array.from({ length: JSON_VALIDATION_LIMIT / chunk.length + 1 }, () => chunk);
+    await expect(validate({ mode: 'json' }, chunks))
+      .rejects.toThrow(new ValidationError(`response body exceeds ${JSON_VALIDATION_LIMIT} bytes, the most validate: json reads into memory`));
+  });
+
+  it('refuses NDJSON lines and CSV header rows longer than it reads into memory', async () => {
+    const chunk = Buffer.alloc(1024 ** 2, 'x');
+    const chunks = ['{"a":1}\n', ...Array.from({ length: JSON_VALIDATION_LIMIT / chunk.length + 1 }, () => chunk)];
+    await expect(validate({ mode: 'ndjson' }, chunks))
+      .rejects.toThrow(new ValidationError(`line 2 exceeds ${JSON_VALIDATION_LIMIT} bytes, the most validate: ndjson reads into memory`));
+    await expect(validate({ mode: 'csv-header', csvColumns: ['id'] }, chunks.slice(1)))
+      .rejects.toThrow(new ValidationError(`no CSV header line within ${JSON_VALIDATION_LIMIT} bytes`));
+  });
+
+  it('reports the first invalid NDJSON line', async () => {
+    await expect(validate({ mode: 'ndjson' }, ['{"a":1}\n{"a"', ':2}\n\nnot json\n'])).rejects.toThrow('line 4 is not valid JSON');
+    await expect(validate({ mode: 'ndjson' }, [''])).rejects.toThrow('response body is empty, expected NDJSON');
+  });
+
+  it('checks the CSV header row for the required columns', async () => {
+    await expect(validate({ mode: 'csv-header', csvColumns: ['id', 'name, full'] }, ['﻿id,"name, full"\r\n1,a\r\n']))
+      .resolves.toBeUndefined();
+    await expect(validate({ mode: 'csv-header', csvColumns: ['id', 'email'] }, ['id,na', 'me\n1,a\n']))
+      .rejects.toThrow('CSV header is missing column(s): email (found: id, name)');
+  });
+});
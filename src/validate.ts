@@ -0,0 +1,344 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Transform, TransformCallback } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import Ajv, { ValidateFunction } from 'ajv';
+
+export type ValidateMode = 'none' | 'json' | 'ndjson' | 'csv-header' | 'json-schema';
+
+export interface ValidationOptions {
+  maxSize?: number; // Bytes; the stream is aborted as soon as it grows past this
+  minSize?: number; // Bytes; checked once the body is complete
+  allowedContentTypes?: string[]; // MIME types, wildcards like text/* allowed
+  mode?: ValidateMode;
+  csvColumns?: string[]; // Columns the CSV header row must contain (csv-header)
+  schemaFile?: string; // JSON Schema file, relative to the workspace (json-schema)
+}
+
+/**
+ * The response did not pass a validation gate; nothing was committed to S3
+ */
+export class ValidationError extends Error {
+  constructor(reason: string) {
+    super(`Validation failed: ${reason}`);
+    this.name = 'ValidationError';
+  }
+}
+
+const VALIDATE_MODES: ValidateMode[] = ['none', 'json', 'ndjson', 'csv-header', 'json-schema'];
+
+const SIZE_UNITS: Record<string, number> = {
+  '': 1,
+  'b': 1,
+  'kb': 1000,
+  'mb': 1000 ** 2,
+  'gb': 1000 ** 3,
+  'kib': 1024,
+  'mib': 1024 ** 2,
+  'gib': 1024 ** 3,
+};
+
+// json and json-schema hold the whole body in memory to parse it, ndjson and csv-header one line,
+// so larger bodies (or lines) are refused
+export const JSON_VALIDATION_LIMIT = 100 * 1024 ** 2;
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+
+// Compiled schemas, so manifest entries sharing a schema file compile it once
+const schemaValidators = new Map<string, ValidateFunction>();
+
+/**
+ * Parse a size in bytes, with an optional KB/MB/GB (1000) or KiB/MiB/GiB (1024) suffix
+ */
+export function parseSize(input: string, name: string): number | undefined {
+  if (!input) return undefined;
+
+  const match = /^(\d+(?:\.\d+)?)\s*([a-z]*)$/i.exec(input.trim());
+  const multiplier = match ? SIZE_UNITS[match[2].toLowerCase()] : undefined;
+  if (!match || multiplier === undefined) {
+    throw new Error(`Invalid ${name}: ${input}. Must be a number of bytes, optionally with a KB, MB, GB, KiB, MiB or GiB suffix`);
+  }
+
+  return Math.floor(parseFloat(match[1]) * multiplier);
+}
+
+/**
+ * Validate mode
+ */
+export function validateValidateMode(mode?: string): ValidateMode {
+  if (!mode) return 'none';
+
+  if (!VALIDATE_MODES.includes(mode as ValidateMode)) {
+    throw new Error(`Invalid validate: ${mode}. Must be one of: ${VALIDATE_MODES.join(', ')}`);
+  }
+
+  return mode as ValidateMode;
+}
+
+/**
+ * Validate the validation options and load the JSON Schema up front
+ */
+export function validateValidationOptions(options: ValidationOptions): void {
+  if (options.minSize !== undefined && options.maxSize !== undefined && options.minSize > options.maxSize) {
+    throw new Error(`min-size (${options.minSize}) cannot be larger than max-size (${options.maxSize})`);
+  }
+  if (options.mode === 'json-schema') {
+    if (!options.schemaFile) {
+      throw new Error('validate-schema is required when validate is json-schema');
+    }
+    getSchemaValidator(options.schemaFile);
+  }
+}
+
+/**
+ * Load and compile a JSON Schema file
+ */
+function getSchemaValidator(schemaFile: string): ValidateFunction {
+  const cached = schemaValidators.get(schemaFile);
+  if (cached) {
+    return cached;
+  }
+
+  const workspace = process.env.GITHUB_WORKSPACE || process.cwd();
+  const filePath = path.resolve(workspace, schemaFile);
+
+  let schema: unknown;
+  try {
+    schema = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to read validate-schema ${schemaFile}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  let validator: ValidateFunction;
+  try {
+    validator = ajv.compile(schema as object);
+  } catch (error) {
+    throw new Error(`Invalid JSON Schema in ${schemaFile}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  schemaValidators.set(schemaFile, validator);
+  return validator;
+}
+
+/**
+ * Check whether a Content-Type matches an allowlist entry (exact MIME type or type/*)
+ */
+function contentTypeMatches(mimeType: string, allowed: string): boolean {
+  const pattern = allowed.split(';')[0].trim().toLowerCase();
+  if (pattern === '*/*' || pattern === mimeType) {
+    return true;
+  }
+  return pattern.endsWith('/*') && mimeType.startsWith(pattern.substring(0, pattern.length - 1));
+}
+
+/**
+ * Check the response headers before any of the body is read
+ * Content-Length is only compared when the body is not compressed in transit
+ */
+export function checkResponseHeaders(
+  options: ValidationOptions,
+  contentType: string | undefined,
+  contentLength: number,
+  contentEncoding?: string
+): void {
+  if (options.allowedContentTypes && options.allowedContentTypes.length > 0) {
+    const mimeType = contentType?.split(';')[0].trim().toLowerCase();
+    if (!mimeType) {
+      throw new ValidationError(`response has no Content-Type, expected one of: ${options.allowedContentTypes.join(', ')}`);
+    }
+    if (!options.allowedContentTypes.some((allowed) => contentTypeMatches(mimeType, allowed))) {
+      throw new ValidationError(
+        `Content-Type ${mimeType} is not allowed, expected one of: ${options.allowedContentTypes.join(', ')}`
+      );
+    }
+  }
+
+  const encoded = contentEncoding && contentEncoding !== 'identity';
+  if (options.maxSize !== undefined && contentLength > options.maxSize && !encoded) {
+    throw new ValidationError(`Content-Length ${contentLength} bytes exceeds max-size (${options.maxSize} bytes)`);
+  }
+}
+
+/**
+ * Check whether any body validation needs to look at the stream
+ */
+export function needsBodyValidation(options: ValidationOptions): boolean {
+  return options.maxSize !== undefined ||
+    options.minSize !== undefined ||
+    (options.mode !== undefined && options.mode !== 'none');
+}
+
+/**
+ * Split a CSV header row into column names (quoted names may contain commas)
+ */
+function parseCsvHeader(line: string): string[] {
+  const columns: string[] = [];
+  const pattern = /\s*(?:"((?:[^"]|"")*)"|([^,]*))\s*(?:,|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(line)) !== null && match.index < line.length) {
+    columns.push(match[1] !== undefined ? match[1].replace(/""/g, '"') : match[2].trim());
+  }
+  return columns;
+}
+
+/**
+ * Stream that passes the body through unchanged while enforcing the validation gates
+ * Errors are raised from the stream, so the upload is aborted before the object is committed
+ */
+export class ValidatingStream extends Transform {
+  private bytes = 0;
+  private buffered: Buffer[] = [];
+  private pendingLine = '';
+  private lineNumber = 0;
+  private records = 0; // Non-blank NDJSON lines
+  private headerChecked = false;
+  private decoder = new StringDecoder('utf8');
+
+  constructor(private options: ValidationOptions) {
+    super();
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.bytes += chunk.length;
+    if (this.options.maxSize !== undefined && this.bytes > this.options.maxSize) {
+      callback(new ValidationError(`response body exceeds max-size (${this.options.maxSize} bytes)`));
+      return;
+    }
+
+    try {
+      switch (this.options.mode) {
+        case 'json':
+        case 'json-schema':
+          // A JSON document can only be checked once it is complete
+          if (this.bytes > JSON_VALIDATION_LIMIT) {
+            throw new ValidationError(
+              `response body exceeds ${JSON_VALIDATION_LIMIT} bytes, the most validate: ${this.options.mode} reads into memory`
+            );
+          }
+          this.buffered.push(chunk);
+          break;
+        case 'ndjson': {
+          const text = this.decoder.write(chunk);
+          // Only split when the chunk ends a line, so a long line is not rescanned for every chunk
+          if (text.includes('\n')) {
+            this.checkLines(this.pendingLine + text, false);
+          } else {
+            this.pendingLine += text;
+          }
+          if (this.pendingLine.length > JSON_VALIDATION_LIMIT) {
+            throw new ValidationError(
+              `line ${this.lineNumber + 1} exceeds ${JSON_VALIDATION_LIMIT} bytes, the most validate: ndjson reads into memory`
+            );
+          }
+          break;
+        }
+        case 'csv-header':
+          if (!this.headerChecked) {
+            const text = this.decoder.write(chunk);
+            const newline = text.indexOf('\n');
+            if (newline !== -1) {
+              this.checkCsvHeader(this.pendingLine + text.substring(0, newline));
+            } else {
+              this.pendingLine += text;
+              if (this.pendingLine.length > JSON_VALIDATION_LIMIT) {
+                throw new ValidationError(`no CSV header line within ${JSON_VALIDATION_LIMIT} bytes`);
+              }
+            }
+          }
+          break;
+      }
+    } catch (error) {
+      callback(error as Error);
+      return;
+    }
+
+    callback(null, chunk);
+  }
+
+  _flush(callback: TransformCallback): void {
+    if (this.options.minSize !== undefined && this.bytes < this.options.minSize) {
+      callback(new ValidationError(`response body is ${this.bytes} bytes, smaller than min-size (${this.options.minSize} bytes)`));
+      return;
+    }
+
+    try {
+      switch (this.options.mode) {
+        case 'json':
+        case 'json-schema':
+          this.checkJson(Buffer.concat(this.buffered).toString('utf8'));
+          break;
+        case 'ndjson':
+          this.checkLines(this.pendingLine + this.decoder.end(), true);
+          break;
+        case 'csv-header':
+          if (!this.headerChecked) {
+            this.checkCsvHeader(this.pendingLine + this.decoder.end());
+          }
+          break;
+      }
+    } catch (error) {
+      callback(error as Error);
+      return;
+    }
+
+    callback();
+  }
+
+  /**
+   * Parse every complete line as JSON, keeping a trailing partial line for the next chunk
+   */
+  private checkLines(text: string, final: boolean): void {
+    const lines = text.split('\n');
+    this.pendingLine = final ? '' : lines.pop() as string;
+
+    for (const line of lines) {
+      this.lineNumber++;
+      if (line.trim() === '') continue;
+      this.records++;
+      try {
+        JSON.parse(line);
+      } catch (error) {
+        throw new ValidationError(`line ${this.lineNumber} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    if (final && this.records === 0) {
+      throw new ValidationError('response body is empty, expected NDJSON');
+    }
+  }
+
+  private checkCsvHeader(line: string): void {
+    this.headerChecked = true;
+    this.pendingLine = '';
+
+    const columns = parseCsvHeader(line.replace(/^\uFEFF/, '').replace(/\r$/, ''));
+    if (columns.length === 0 || columns.every((column) => column === '')) {
+      throw new ValidationError('response has no CSV header row');
+    }
+
+    const missing = (this.options.csvColumns ?? []).filter((column) => !columns.includes(column));
+    if (missing.length > 0) {
+      throw new ValidationError(`CSV header is missing column(s): ${missing.join(', ')} (found: ${columns.join(', ')})`);
+    }
+  }
+
+  private checkJson(text: string): void {
+    let document: unknown;
+    try {
+      document = JSON.parse(text);
+    } catch (error) {
+      throw new ValidationError(`response body is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      this.buffered = [];
+    }
+
+    if (this.options.mode === 'json-schema') {
+      const validator = getSchemaValidator(this.options.schemaFile as string);
+      if (!validator(document)) {
+        throw new ValidationError(
+          `response does not match ${this.options.schemaFile}: ${ajv.errorsText(validator.errors, { dataVar: '$' })}`
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import axios from 'axios';
+import { log } from './logger';
+import { DownloadOptions, isHttpUrl } from './download';
+import { getAuthHeaders } from './auth';
+import { getRequestAgents, PRIVATE_NETWORK_ERROR_CODE } from './network';
+import { queryJsonPath, validateJsonPath } from './jsonpath';
+import { redactUrl } from './redact';
+import { checkRequestUrl, DEFAULT_REDIRECT_POLICY, redirectConfig } from './redirect';
+import { sleep } from './retry';
+
+export type WaitCondition = 'status' | 'json-path';
+export type WaitMethod = 'HEAD' | 'GET';
+
+export interface WaitOptions {
+  condition: WaitCondition;
+  url?: string; // Status endpoint to poll; the download URL when unset
+  method: WaitMethod;
+  successStatuses: number[]; // Statuses that mean the source is ready
+  jsonPath?: string; // Value in the polled JSON body that signals readiness (json-path)
+  jsonValue?: string; // What the value must equal; any value but false, null, 0 and '' when unset
+  interval: number; // Milliseconds between polls
+  timeout: number; // Longest time to wait in milliseconds
+}
+
+/**
+ * Polling done before the transfer
+ */
+export interface WaitResult {
+  attempts: number;
+  waitedMs: number;
+}
+
+const WAIT_CONDITIONS: WaitCondition[] = ['status', 'json-path'];
+const WAIT_METHODS: WaitMethod[] = ['HEAD', 'GET'];
+
+// A poll that hangs should not use up the whole wait
+const POLL_TIMEOUT = 60000;
+
+/**
+ * Validate wait options
+ */
+export function validateWaitOptions(options: WaitOptions): WaitOptions {
+  if (!WAIT_CONDITIONS.includes(options.condition)) {
+    throw new Error(`Invalid wait-for: ${options.condition}. Must be one of: none, ${WAIT_CONDITIONS.join(', ')}`);
+  }
+  if (!WAIT_METHODS.includes(options.method)) {
+    throw new Error(`Invalid wait-method: ${options.method}. Must be one of: ${WAIT_METHODS.join(', ')}`);
+  }
+  if (options.successStatuses.length === 0 || options.successStatuses.some((status) => isNaN(status) || status < 100 || status > 599)) {
+    throw new Error(`Invalid wait-success-status: ${options.successStatuses.join(', ')}. Must be HTTP status codes`);
+  }
+  if (options.condition === 'json-path') {
+    if (!options.jsonPath) {
+      throw new Error('wait-json-path is required for wait-for: json-path');
+    }
+    if (options.method !== 'GET') {
+      throw new Error('wait-for: json-path reads the response body, so wait-method must be GET');
+    }
+    validateJsonPath(options.jsonPath, 'wait-json-path');
+  }
+  if (isNaN(options.interval) || options.interval < 0) {
+    throw new Error(`Invalid wait-interval: ${options.interval}. Must be a number of milliseconds`);
+  }
+  if (isNaN(options.timeout) || options.timeout < 1) {
+    throw new Error(`Invalid wait-timeout: ${options.timeout}. Must be a positive number of milliseconds`);
+  }
+  if (options.url && !isHttpUrl(options.url)) {
+    throw new Error(`Invalid wait-url: ${options.url}. Must be an http:// or https:// URL`);
+  }
+  return options;
+}
+
+/**
+ * Whether a JSON value meets the wait-json-value condition
+ */
+function meetsCondition(value: unknown, expected?: string): boolean {
+  if (expected === undefined) {
+    return value !== undefined && value !== null && value !== false && value !== 0 && value !== '';
+  }
+  return value !== undefined && value !== null && String(value) === expected;
+}
+
+/**
+ * Poll once; returns why the source is not ready yet, or undefined when it is
+ */
+async function poll(download: DownloadOptions, wait: WaitOptions, url: string): Promise<string | undefined> {
+  const headers = { ...download.headers };
+  let response;
+  try {
+    const authHeaders = await getAuthHeaders(download, { method: wait.method, url, headers });
+    response = await axios({
+      method: wait.method,
+      url,
+      headers: { ...headers, ...authHeaders },
+      responseType: wait.condition === 'json-path' ? 'text' : 'stream',
+      ...redirectConfig(url, download.redirects ?? DEFAULT_REDIRECT_POLICY, [], download.network?.blockPrivateNetworks),
+      timeout: Math.min(download.timeout || POLL_TIMEOUT, POLL_TIMEOUT),
+      validateStatus: () => true,
+      ...getRequestAgents(url, download.network),
+    });
+  } catch (error) {
+    // Redirect and private network refusals will not change between polls
+    if (!axios.isAxiosError(error) || error.code?.startsWith('ERR_FR_') || error.code === PRIVATE_NETWORK_ERROR_CODE) {
+      throw error;
+    }
+    return `request failed: ${error.message}${error.code ? ` (${error.code})` : ''}`;
+  }
+
+  if (wait.condition === 'status') {
+    response.data.destroy();
+  }
+  if (!wait.successStatuses.includes(response.status)) {
+    return `status ${response.status}`;
+  }
+  if (wait.condition === 'status') {
+    return undefined;
+  }
+
+  let document: unknown;
+  try {
+    document = JSON.parse(response.data as string);
+  } catch {
+    return `status ${response.status}, body is not JSON`;
+  }
+  const value = queryJsonPath(document, wait.jsonPath as string);
+  if (!meetsCondition(value, wait.jsonValue)) {
+    return `${wait.jsonPath} is ${value === undefined ? 'missing' : JSON.stringify(value)}`;
+  }
+  return undefined;
+}
+
+/**
+ * Poll the source (or its status endpoint) until it is ready, failing after wait-timeout
+ */
+export async function waitUntilReady(download: DownloadOptions, wait: WaitOptions): Promise<WaitResult> {
+  const url = wait.url || download.url;
+  if (!isHttpUrl(url)) {
+    throw new Error('wait-for requires an http:// or https:// url (or wait-url)');
+  }
+  checkRequestUrl(url, download.redirects ?? DEFAULT_REDIRECT_POLICY, download.network?.blockPrivateNetworks);
+
+  const target = wait.condition === 'json-path'
+    ? `${wait.jsonPath} ${wait.jsonValue !== undefined ? `= ${wait.jsonValue}` : 'to be set'}`
+    : `status ${wait.successStatuses.join(', ')}`;
+  log.info(`Waiting for ${redactUrl(url)} (${wait.method}, ${target}), up to ${wait.timeout}ms...`);
+
+  const start = Date.now();
+  for (let attempts = 1; ; attempts++) {
+    const reason = await poll(download, wait, url);
+    const waitedMs = Date.now() - start;
+    if (!reason) {
+      log.info(`Source ready after ${attempts} ${attempts === 1 ? 'poll' : 'polls'} (${waitedMs}ms)`);
+      return { attempts, waitedMs };
+    }
+
+    if (waitedMs + wait.interval >= wait.timeout) {
+      throw new Error(`Source not ready after waiting ${waitedMs}ms (${attempts} polls, wait-timeout ${wait.timeout}ms): ${reason}`);
+    }
+    log.info(`Poll ${attempts}: not ready (${reason}), next poll in ${wait.interval}ms`);
+    await sleep(wait.interval);
+  }
+}